@@ -0,0 +1,309 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  GitCompare,
+  FileAudio,
+  Play,
+  RotateCcw,
+  Lightbulb,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  AlertTriangle,
+  Clock
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+
+import { useAdvancedOptions } from '@/hooks/useAdvancedOptions';
+import { useModelComparison } from '@/hooks/useModelComparison';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { AGREEMENT_THRESHOLD } from '@/lib/comparison';
+import { getModelName } from '@/lib/models';
+import { ComparisonRunStatus, ModelSize } from '@/lib/types';
+import ComparisonColumns from '@/components/ComparisonColumns';
+
+const STATUS_LABELS: Record<ComparisonRunStatus, string> = {
+  queued: 'Sırada',
+  transcribing: 'İşleniyor',
+  completed: 'Tamamlandı',
+  failed: 'Başarısız',
+};
+
+const formatSeconds = (seconds?: number): string =>
+  seconds === undefined ? '-' : seconds < 60 ? `${seconds.toFixed(1)} sn` : `${Math.floor(seconds / 60)} dk ${Math.round(seconds % 60)} sn`;
+
+export default function ComparePage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [selectedModels, setSelectedModels] = useState<ModelSize[]>(['base', 'small', 'large']);
+  const { getRequestOptions, isValid } = useAdvancedOptions();
+  const { models } = useModelRegistry();
+  const comparison = useModelComparison();
+  // The defaults may name sizes the server does not offer
+  const chosenModels = selectedModels.filter(model => models.some(m => m.id === model));
+  const { runs, rows, progress, referenceModel, failedLargestModel, recommendation, isRunning } = comparison;
+
+  const toggleModel = (model: ModelSize) => {
+    setSelectedModels(prev => prev.includes(model) ? prev.filter(m => m !== model) : [...prev, model]);
+  };
+
+  const handleStart = () => {
+    if (!file) return;
+    comparison.startComparison(file, chosenModels, getRequestOptions());
+  };
+
+  const recommendedRow = rows.find(row => row.model === recommendation);
+  const referenceRow = rows.find(row => row.model === referenceModel);
+  const speedup = recommendedRow?.processingTime && referenceRow?.processingTime
+    ? referenceRow.processingTime / recommendedRow.processingTime
+    : undefined;
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <div className="absolute inset-0 bg-gradient-to-br from-slate-900 via-slate-950 to-black opacity-50"></div>
+
+      <div className="relative">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="sticky top-0 z-50 border-b border-slate-800/50 backdrop-blur-xl bg-slate-950/80"
+        >
+          <div className="container mx-auto px-6 py-4 flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 text-slate-400 hover:text-white transition-colors rounded-lg hover:bg-slate-800/50"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <GitCompare className="w-6 h-6 text-violet-400" />
+                Model Karşılaştırma
+              </h1>
+              <p className="text-sm text-slate-400">Aynı dosyayı birden fazla modelle yazıya dökün ve sonuçları yan yana görün</p>
+            </div>
+          </div>
+        </motion.header>
+
+        <main className="container mx-auto px-6 py-8 space-y-6">
+          <div className="grid lg:grid-cols-3 gap-6">
+            {/* Setup */}
+            <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileAudio className="w-5 h-5 text-blue-500" />
+                  Dosya ve Modeller
+                </CardTitle>
+                <CardDescription>
+                  Dosya bir kez yüklenir; gelişmiş ayarlarınız tüm modellere uygulanır
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="compare-file">Ses veya video dosyası</Label>
+                  <Input
+                    id="compare-file"
+                    type="file"
+                    accept="audio/*,video/*"
+                    disabled={isRunning}
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                    className="bg-gray-800/50 border-gray-700"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Modeller</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {models.map(model => (
+                      <Button
+                        key={model.id}
+                        variant={selectedModels.includes(model.id) ? 'default' : 'outline'}
+                        size="sm"
+                        disabled={isRunning}
+                        onClick={() => toggleModel(model.id)}
+                      >
+                        {model.name}
+                      </Button>
+                    ))}
+                  </div>
+                  {chosenModels.length < 2 && (
+                    <p className="text-xs text-yellow-400">En az iki model seçin</p>
+                  )}
+                  {!isValid && (
+                    <p className="text-xs text-red-400">Gelişmiş ayarlarda hatalı değerler var; ana sayfadan düzeltin</p>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleStart}
+                    disabled={!file || chosenModels.length < 2 || isRunning || !isValid}
+                    className="flex-1"
+                  >
+                    {isRunning ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4 mr-2" />
+                    )}
+                    Karşılaştır
+                  </Button>
+                  <Button
+                    variant="outline"
+                    title="Sıfırla"
+                    onClick={comparison.reset}
+                    disabled={runs.length === 0}
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Summary */}
+            <Card className="lg:col-span-2 border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-5 h-5 text-green-500" />
+                  Süre ve Uyum
+                </CardTitle>
+                <CardDescription>
+                  Uyum, referans modelin (en büyük tamamlanan) metnindeki kelimelerin ne kadarının aynen bulunduğunu gösterir
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {comparison.uploading && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-gray-400">
+                      <span>Yükleniyor</span>
+                      <span>%{Math.round(comparison.uploadProgress)}</span>
+                    </div>
+                    <Progress value={comparison.uploadProgress} className="h-1.5" />
+                  </div>
+                )}
+
+                {runs.length === 0 ? (
+                  <p className="text-sm text-gray-500">Bir dosya ve en az iki model seçip karşılaştırmayı başlatın.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 border-b border-gray-800">
+                          <th className="py-2 font-normal">Model</th>
+                          <th className="py-2 font-normal">Durum</th>
+                          <th className="py-2 font-normal text-right">İşlem süresi</th>
+                          <th className="py-2 font-normal text-right" title="İşlem süresi / ses süresi; 1'in altı gerçek zamandan hızlıdır">RTF</th>
+                          <th className="py-2 font-normal text-right">Kelime</th>
+                          <th className="py-2 font-normal text-right">Uyum</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {runs.map(run => {
+                          const row = rows.find(r => r.model === run.model);
+                          return (
+                            <tr key={run.model} className="border-b border-gray-800/50">
+                              <td className="py-2 text-white">
+                                <span className="flex items-center gap-2">
+                                  {getModelName(run.model)}
+                                  {run.model === referenceModel && (
+                                    <Badge variant="outline" className="text-xs">Referans</Badge>
+                                  )}
+                                  {run.model === recommendation && (
+                                    <Badge className="text-xs bg-green-600">Önerilen</Badge>
+                                  )}
+                                </span>
+                              </td>
+                              <td className="py-2">
+                                {run.status === 'transcribing' || run.status === 'queued' ? (
+                                  <div className="flex items-center gap-2 min-w-[120px]">
+                                    <Progress value={progress[run.model] ?? 0} className="h-1.5 flex-1" />
+                                    <span className="text-xs text-gray-400">{STATUS_LABELS[run.status]}</span>
+                                  </div>
+                                ) : run.status === 'failed' ? (
+                                  <span className="flex items-center gap-1 text-xs text-red-400" title={run.error}>
+                                    <XCircle className="w-3 h-3" />
+                                    {STATUS_LABELS[run.status]}
+                                  </span>
+                                ) : (
+                                  <span className="flex items-center gap-1 text-xs text-green-400">
+                                    <CheckCircle2 className="w-3 h-3" />
+                                    {STATUS_LABELS[run.status]}
+                                  </span>
+                                )}
+                              </td>
+                              <td className="py-2 text-right text-gray-300">{formatSeconds(row?.processingTime)}</td>
+                              <td className="py-2 text-right text-gray-300">
+                                {row?.realTimeFactor !== undefined ? `${row.realTimeFactor.toFixed(2)}x` : '-'}
+                              </td>
+                              <td className="py-2 text-right text-gray-300">{row?.wordCount ?? '-'}</td>
+                              <td className="py-2 text-right text-gray-300">
+                                {row?.agreement !== undefined ? `%${Math.round(row.agreement * 100)}` : '-'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {failedLargestModel && !isRunning && (
+                  <div className="flex items-start gap-3 rounded-lg border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-400 flex-shrink-0" />
+                    <p className="text-gray-300">
+                      {getModelName(failedLargestModel)} başarısız oldu, bu yüzden öneri yapılmadı.
+                      {referenceModel && ` Uyum ${getModelName(referenceModel)} modeline göre hesaplandı.`}
+                    </p>
+                  </div>
+                )}
+
+                {recommendation && referenceModel && (
+                  <div className="flex items-start gap-3 rounded-lg border border-green-500/30 bg-green-500/10 p-3 text-sm">
+                    <Lightbulb className="w-4 h-4 mt-0.5 text-green-400 flex-shrink-0" />
+                    {recommendation === referenceModel ? (
+                      <p className="text-gray-300">
+                        Daha küçük modellerin hiçbiri {getModelName(referenceModel)} ile %{Math.round(AGREEMENT_THRESHOLD * 100)} uyuma
+                        ulaşmadı; bu dosya için <span className="font-medium text-white">{getModelName(referenceModel)}</span> gerekli görünüyor.
+                      </p>
+                    ) : (
+                      <p className="text-gray-300">
+                        <span className="font-medium text-white">{getModelName(recommendation)}</span>,{' '}
+                        {getModelName(referenceModel)} ile %{Math.round((recommendedRow?.agreement ?? 0) * 100)} uyumlu
+                        {speedup ? ` ve ${speedup.toFixed(1)} kat daha hızlı` : ''}. Bu tür dosyalar için yeterli olan en ucuz model bu.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {rows.length > 0 && (
+            <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <GitCompare className="w-5 h-5 text-violet-500" />
+                  Metinler
+                </CardTitle>
+                <CardDescription>
+                  Farklar {referenceModel ? getModelName(referenceModel) : 'referans'} modeline göre işaretlenir; sütunlar birlikte kayar
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ComparisonColumns runs={runs} rows={rows} referenceModel={referenceModel} />
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, ChangeEvent } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import {
+  ArrowLeft,
+  ClipboardCheck,
+  FileText,
+  Upload,
+  Download,
+  Trash2,
+  Target,
+  Loader2
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+
+import { listHistory } from '@/lib/history';
+import {
+  deleteEvaluation,
+  diffForScoring,
+  evaluateTranscript,
+  evaluationsToCsv,
+  listEvaluations,
+  pooledErrorRates,
+  saveEvaluation
+} from '@/lib/evaluation';
+import { saveBlob } from '@/lib/download';
+import { EvaluationEntry, HistoryEntry } from '@/lib/types';
+import AlignedDiff from '@/components/AlignedDiff';
+
+const PASTED_REFERENCE = 'Yapıştırılan metin';
+
+const formatRate = (rate: number): string => `%${(rate * 100).toFixed(1)}`;
+
+export default function EvaluatePage() {
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [evaluations, setEvaluations] = useState<EvaluationEntry[]>([]);
+  const [historyId, setHistoryId] = useState('');
+  const [reference, setReference] = useState('');
+  const [referenceName, setReferenceName] = useState(PASTED_REFERENCE);
+  const [activeEvaluation, setActiveEvaluation] = useState<EvaluationEntry | null>(null);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load history and saved evaluations on mount
+  useEffect(() => {
+    Promise.all([listHistory(), listEvaluations()])
+      .then(([history, saved]) => {
+        setHistoryEntries(history.filter(entry => entry.result.text));
+        setEvaluations(saved);
+      })
+      .catch((error) => {
+        console.error('Failed to load evaluations:', error);
+        toast.error('Kayıtlar yüklenemedi');
+      });
+  }, []);
+
+  const activeDiff = useMemo(
+    () => activeEvaluation ? diffForScoring(activeEvaluation.reference, activeEvaluation.hypothesis) : undefined,
+    [activeEvaluation]
+  );
+
+  const pooled = useMemo(() => pooledErrorRates(evaluations), [evaluations]);
+
+  const handleReferenceFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setReference(await file.text());
+      setReferenceName(file.name);
+    } catch (error) {
+      console.error('Failed to read reference:', error);
+      toast.error('Dosya okunamadı');
+    }
+  };
+
+  const handleEvaluate = async () => {
+    const entry = historyEntries.find(candidate => candidate.id === historyId);
+    if (!entry || !reference.trim() || isEvaluating) return;
+
+    const hypothesis = entry.result.text ?? '';
+    setIsEvaluating(true);
+    try {
+      const { metrics } = await evaluateTranscript(reference, hypothesis);
+      const evaluation: EvaluationEntry = {
+        id: crypto.randomUUID(),
+        historyId: entry.id,
+        filename: entry.filename,
+        model: entry.model,
+        referenceName,
+        reference,
+        hypothesis,
+        metrics,
+        createdAt: Date.now(),
+      };
+
+      await saveEvaluation(evaluation);
+      setEvaluations(prev => [evaluation, ...prev]);
+      setActiveEvaluation(evaluation);
+      toast.success(`WER ${formatRate(metrics.wer)}`);
+    } catch (error) {
+      console.error('Failed to evaluate transcript:', error);
+      toast.error('Değerlendirme yapılamadı');
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const handleDelete = async (evaluation: EvaluationEntry) => {
+    try {
+      await deleteEvaluation(evaluation.id);
+      setEvaluations(prev => prev.filter(entry => entry.id !== evaluation.id));
+      if (activeEvaluation?.id === evaluation.id) setActiveEvaluation(null);
+    } catch (error) {
+      console.error('Failed to delete evaluation:', error);
+      toast.error('Silme başarısız');
+    }
+  };
+
+  const handleExportCsv = () => {
+    const csv = evaluationsToCsv(evaluations);
+    saveBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `degerlendirme_${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const metrics = activeEvaluation?.metrics;
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <div className="absolute inset-0 bg-gradient-to-br from-slate-900 via-slate-950 to-black opacity-50"></div>
+
+      <div className="relative">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="sticky top-0 z-50 border-b border-slate-800/50 backdrop-blur-xl bg-slate-950/80"
+        >
+          <div className="container mx-auto px-6 py-4 flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 text-slate-400 hover:text-white transition-colors rounded-lg hover:bg-slate-800/50"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <ClipboardCheck className="w-6 h-6 text-violet-400" />
+                Doğruluk Değerlendirmesi
+              </h1>
+              <p className="text-sm text-slate-400">Sonuçları elle düzeltilmiş referans metinlerle karşılaştırın</p>
+            </div>
+          </div>
+        </motion.header>
+
+        <main className="container mx-auto px-6 py-8">
+          <div className="grid lg:grid-cols-3 gap-6">
+            <div className="space-y-6">
+              {/* New Evaluation */}
+              <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="w-5 h-5 text-blue-500" />
+                    Yeni Değerlendirme
+                  </CardTitle>
+                  <CardDescription>
+                    Büyük/küçük harf, noktalama ve sayı yazımı farkları hata sayılmaz
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Transcription</Label>
+                    <Select value={historyId} onValueChange={setHistoryId}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder={historyEntries.length ? 'Geçmişten bir sonuç seçin' : 'Geçmişte sonuç yok'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {historyEntries.map(entry => (
+                          <SelectItem key={entry.id} value={entry.id}>
+                            {entry.filename} · {entry.model?.toUpperCase() ?? '—'} · {new Date(entry.createdAt).toLocaleDateString('tr-TR')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="reference-text">Referans metin</Label>
+                      <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} className="h-7 text-xs">
+                        <Upload className="w-3 h-3 mr-1" />
+                        .txt yükle
+                      </Button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".txt,text/plain"
+                        onChange={handleReferenceFile}
+                        className="hidden"
+                      />
+                    </div>
+                    <textarea
+                      id="reference-text"
+                      rows={10}
+                      value={reference}
+                      onChange={(e) => {
+                        setReference(e.target.value);
+                        setReferenceName(PASTED_REFERENCE);
+                      }}
+                      placeholder="Doğru metni buraya yapıştırın..."
+                      className="w-full resize-y rounded-md bg-gray-800/50 border border-gray-700 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-violet-500"
+                    />
+                    {referenceName !== PASTED_REFERENCE && (
+                      <p className="text-xs text-gray-500">{referenceName}</p>
+                    )}
+                  </div>
+
+                  <Button
+                    onClick={handleEvaluate}
+                    disabled={!historyId || !reference.trim() || isEvaluating}
+                    className="w-full"
+                  >
+                    {isEvaluating
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      : <Target className="w-4 h-4 mr-2" />}
+                    Değerlendir
+                  </Button>
+                </CardContent>
+              </Card>
+
+              {/* Saved Evaluations */}
+              <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                      <ClipboardCheck className="w-5 h-5 text-green-500" />
+                      Kayıtlı Değerlendirmeler
+                    </CardTitle>
+                    <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={evaluations.length === 0}>
+                      <Download className="w-4 h-4 mr-2" />
+                      CSV
+                    </Button>
+                  </div>
+                  <CardDescription>
+                    {evaluations.length > 0
+                      ? `${evaluations.length} değerlendirme · toplam WER ${formatRate(pooled.wer)} · CER ${formatRate(pooled.cer)}`
+                      : 'Henüz değerlendirme yok'}
+                  </CardDescription>
+                </CardHeader>
+                {evaluations.length > 0 && (
+                  <CardContent>
+                    <div className="max-h-80 overflow-y-auto space-y-1 pr-1">
+                      {evaluations.map(evaluation => (
+                        <div
+                          key={evaluation.id}
+                          className={`flex items-center gap-2 rounded-md border px-3 py-2 text-sm cursor-pointer transition-colors ${
+                            activeEvaluation?.id === evaluation.id
+                              ? 'border-violet-500 bg-violet-500/10'
+                              : 'border-slate-700 bg-slate-800/30 hover:border-slate-600'
+                          }`}
+                          onClick={() => setActiveEvaluation(evaluation)}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-white">{evaluation.filename}</p>
+                            <p className="truncate text-xs text-gray-500">
+                              {evaluation.model?.toUpperCase() ?? '—'} · {evaluation.referenceName}
+                            </p>
+                          </div>
+                          <span className="font-mono text-xs text-gray-300">{formatRate(evaluation.metrics.wer)}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Sil"
+                            className="h-7 px-1.5 text-red-400"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDelete(evaluation);
+                            }}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                )}
+              </Card>
+            </div>
+
+            {/* Result */}
+            <div className="lg:col-span-2">
+              {activeEvaluation && metrics && activeDiff ? (
+                <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Target className="w-5 h-5 text-violet-500" />
+                      {activeEvaluation.filename}
+                    </CardTitle>
+                    <CardDescription>
+                      {activeEvaluation.referenceName} · {new Date(activeEvaluation.createdAt).toLocaleString('tr-TR')}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                      {[
+                        { label: 'WER', value: formatRate(metrics.wer), title: 'Kelime hata oranı: (S + D + I) / referans kelime sayısı' },
+                        { label: 'CER', value: formatRate(metrics.cer), title: 'Karakter hata oranı' },
+                        { label: 'Yanlış (S)', value: metrics.substitutions, title: 'Başka bir kelimeyle yazılan kelimeler' },
+                        { label: 'Eksik (D)', value: metrics.deletions, title: 'Transcriptte olmayan referans kelimeleri' },
+                        { label: 'Fazla (I)', value: metrics.insertions, title: 'Referansta olmayan kelimeler' },
+                      ].map(metric => (
+                        <div key={metric.label} title={metric.title} className="rounded-lg border border-gray-700 bg-gray-800/30 p-3">
+                          <p className="text-xs text-gray-400">{metric.label}</p>
+                          <p className="text-xl font-bold text-white">{metric.value}</p>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Referans {metrics.referenceWords.toLocaleString('tr-TR')} kelime, transcript{' '}
+                      {metrics.hypothesisWords.toLocaleString('tr-TR')} kelime (normalleştirildikten sonra)
+                    </p>
+                    <AlignedDiff diff={activeDiff} />
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm h-[600px] flex items-center justify-center">
+                  <div className="text-center space-y-2">
+                    <ClipboardCheck className="w-10 h-10 mx-auto text-slate-500" />
+                    <p className="text-sm text-slate-400">Bir sonuç ve referans metin seçip değerlendirin</p>
+                  </div>
+                </Card>
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArrowLeft,
+  History,
+  Search,
+  Trash2,
+  Eye,
+  Clock,
+  Calendar,
+  Hash,
+  Languages,
+  Cpu,
+  FileAudio
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+import { deleteHistoryEntry, listHistory } from '@/lib/history';
+import { saveBlob } from '@/lib/download';
+import { exportFilename, exportTranscript } from '@/lib/export';
+import { DownloadFormat, ExportOptions, HistoryEntry, ModelSize } from '@/lib/types';
+import TranscriptionResultCard from '@/components/TranscriptionResultCard';
+
+type SortOption = 'date-desc' | 'date-asc' | 'duration-desc' | 'words-desc' | 'name-asc';
+
+const SORT_OPTIONS: { id: SortOption; label: string }[] = [
+  { id: 'date-desc', label: 'En yeni' },
+  { id: 'date-asc', label: 'En eski' },
+  { id: 'duration-desc', label: 'En uzun' },
+  { id: 'words-desc', label: 'En çok kelime' },
+  { id: 'name-asc', label: 'Dosya adı (A-Z)' },
+];
+
+const compareEntries = (sort: SortOption) => (a: HistoryEntry, b: HistoryEntry): number => {
+  switch (sort) {
+    case 'date-asc': return a.createdAt - b.createdAt;
+    case 'duration-desc': return (b.duration ?? 0) - (a.duration ?? 0);
+    case 'words-desc': return b.wordCount - a.wordCount;
+    case 'name-asc': return a.filename.localeCompare(b.filename, 'tr');
+    default: return b.createdAt - a.createdAt;
+  }
+};
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sort, setSort] = useState<SortOption>('date-desc');
+  const [modelFilter, setModelFilter] = useState('all');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [openedEntry, setOpenedEntry] = useState<HistoryEntry | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<HistoryEntry | null>(null);
+
+  // Load history on mount
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch((error) => {
+        console.error('Failed to load history:', error);
+        toast.error('Geçmiş yüklenemedi');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const models = useMemo(
+    () => Array.from(new Set(entries.map(entry => entry.model).filter((model): model is ModelSize => !!model))),
+    [entries]
+  );
+
+  const visibleEntries = useMemo(() => {
+    const query = searchTerm.trim().toLocaleLowerCase('tr');
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : -Infinity;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : Infinity;
+
+    return entries
+      .filter(entry => modelFilter === 'all' || entry.model === modelFilter)
+      .filter(entry => entry.createdAt >= from && entry.createdAt <= to)
+      .filter(entry =>
+        !query ||
+        entry.filename.toLocaleLowerCase('tr').includes(query) ||
+        (entry.result.text ?? '').toLocaleLowerCase('tr').includes(query)
+      )
+      .sort(compareEntries(sort));
+  }, [entries, searchTerm, sort, modelFilter, dateFrom, dateTo]);
+
+  const formatDuration = (seconds?: number): string => {
+    if (!seconds) return '0:00';
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = Math.floor(seconds % 60);
+
+    if (hours > 0) {
+      return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    return `${minutes}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const handleDelete = async () => {
+    if (!entryToDelete) return;
+
+    try {
+      await deleteHistoryEntry(entryToDelete.id);
+      setEntries(prev => prev.filter(entry => entry.id !== entryToDelete.id));
+      if (openedEntry?.id === entryToDelete.id) {
+        setOpenedEntry(null);
+      }
+      toast.success('Kayıt silindi');
+    } catch (error) {
+      console.error('Failed to delete history entry:', error);
+      toast.error('Kayıt silinemedi');
+    } finally {
+      setEntryToDelete(null);
+    }
+  };
+
+  // Built from the stored result, so past transcripts export without the server
+  const handleDownload = (format: DownloadFormat, options?: ExportOptions) => {
+    if (!openedEntry) return;
+
+    saveBlob(exportTranscript(openedEntry.result, format, options), exportFilename(format, openedEntry.filename));
+    toast.success('İndirme tamamlandı');
+  };
+
+  const handleCopy = async () => {
+    if (!openedEntry?.result.text) {
+      toast.error('Kopyalanacak metin yok');
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(openedEntry.result.text);
+      toast.success('Metin kopyalandı');
+    } catch (clipboardError) {
+      console.error('Clipboard error:', clipboardError);
+      toast.error('Kopyalama başarısız');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950">
+      <div className="absolute inset-0 bg-gradient-to-br from-slate-900 via-slate-950 to-black opacity-50"></div>
+
+      <div className="relative">
+        {/* Header */}
+        <motion.header
+          initial={{ y: -20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          className="sticky top-0 z-50 border-b border-slate-800/50 backdrop-blur-xl bg-slate-950/80"
+        >
+          <div className="container mx-auto px-6 py-4 flex items-center gap-4">
+            <Link
+              href="/"
+              className="p-2 text-slate-400 hover:text-white transition-colors rounded-lg hover:bg-slate-800/50"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+                <History className="w-6 h-6 text-violet-400" />
+                Transcription Geçmişi
+              </h1>
+              <p className="text-sm text-slate-400">Bu tarayıcıda kaydedilen tüm sonuçlar</p>
+            </div>
+          </div>
+        </motion.header>
+
+        <main className="container mx-auto px-6 py-8">
+          <div className="grid xl:grid-cols-5 lg:grid-cols-3 gap-8">
+            {/* Library */}
+            <div className="xl:col-span-2 lg:col-span-1 space-y-6">
+              <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Search className="w-5 h-5 text-blue-500" />
+                    Ara ve Filtrele
+                  </CardTitle>
+                  <CardDescription>
+                    {visibleEntries.length} / {entries.length} kayıt
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <Input
+                      placeholder="Dosya adında veya metinde ara..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="pl-10 bg-gray-800/50 border-gray-700"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs text-slate-400">Sıralama</Label>
+                      <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SORT_OPTIONS.map(option => (
+                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-slate-400">Model</Label>
+                      <Select value={modelFilter} onValueChange={setModelFilter}>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Tümü</SelectItem>
+                          {models.map(model => (
+                            <SelectItem key={model} value={model}>{model.toUpperCase()}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-slate-400">Başlangıç tarihi</Label>
+                      <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className="bg-gray-800/50 border-gray-700" />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs text-slate-400">Bitiş tarihi</Label>
+                      <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className="bg-gray-800/50 border-gray-700" />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="space-y-3">
+                {loading && (
+                  <p className="text-sm text-slate-400 text-center py-8">Yükleniyor...</p>
+                )}
+
+                {!loading && visibleEntries.length === 0 && (
+                  <p className="text-sm text-slate-400 text-center py-8">
+                    {entries.length === 0 ? 'Henüz kaydedilmiş bir transcription yok' : 'Filtrelere uygun kayıt bulunamadı'}
+                  </p>
+                )}
+
+                <AnimatePresence initial={false}>
+                  {visibleEntries.map(entry => (
+                    <motion.div
+                      key={entry.id}
+                      layout
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className={`
+                        p-4 rounded-lg border transition-colors
+                        ${openedEntry?.id === entry.id
+                          ? 'border-violet-500 bg-violet-500/10'
+                          : 'border-slate-700 bg-slate-800/30 hover:border-slate-600'
+                        }
+                      `}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-white truncate flex items-center gap-2">
+                            <FileAudio className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                            {entry.filename}
+                          </p>
+                          <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-slate-400">
+                            <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatDuration(entry.duration)}</span>
+                            <span className="flex items-center gap-1"><Cpu className="w-3 h-3" />{entry.model?.toUpperCase() ?? '—'}</span>
+                            <span className="flex items-center gap-1"><Languages className="w-3 h-3" />{(entry.language ?? 'auto').toUpperCase()}</span>
+                            <span className="flex items-center gap-1"><Hash className="w-3 h-3" />{entry.wordCount.toLocaleString('tr-TR')} kelime</span>
+                            <span className="flex items-center gap-1"><Calendar className="w-3 h-3" />{new Date(entry.createdAt).toLocaleString('tr-TR')}</span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setOpenedEntry(entry)} title="Aç">
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" className="text-red-400" onClick={() => setEntryToDelete(entry)} title="Sil">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </motion.div>
+                  ))}
+                </AnimatePresence>
+              </div>
+            </div>
+
+            {/* Opened Result */}
+            <div className="xl:col-span-3 lg:col-span-2">
+              {openedEntry ? (
+                <div className="space-y-3">
+                  <Badge variant="outline" className="text-slate-300">{openedEntry.filename}</Badge>
+                  <TranscriptionResultCard
+                    key={openedEntry.id}
+                    transcriptionState={{
+                      taskId: openedEntry.id,
+                      status: 'completed',
+                      progress: 100,
+                      result: openedEntry.result,
+                    }}
+                    onDownload={handleDownload}
+                    onCopy={handleCopy}
+                    onReset={() => setOpenedEntry(null)}
+                  />
+                </div>
+              ) : (
+                <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm h-[600px] flex items-center justify-center">
+                  <div className="text-center space-y-2">
+                    <History className="w-10 h-10 mx-auto text-slate-500" />
+                    <p className="text-sm text-slate-400">Görüntülemek için listeden bir kayıt seçin</p>
+                  </div>
+                </Card>
+              )}
+            </div>
+          </div>
+        </main>
+      </div>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!entryToDelete} onOpenChange={(open) => !open && setEntryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Kaydı sil</DialogTitle>
+            <DialogDescription>
+              &quot;{entryToDelete?.filename}&quot; geçmişten kalıcı olarak silinecek.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEntryToDelete(null)}>Vazgeç</Button>
+            <Button variant="destructive" onClick={handleDelete}>Sil</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Brain,
@@ -8,6 +9,9 @@ import {
   Cpu,
   Globe,
   Github,
+  History,
+  GitCompare,
+  ClipboardCheck,
   Sparkles,
   Zap
 } from 'lucide-react';
@@ -17,30 +21,59 @@ import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 
 import { api } from '@/lib/api';
-import { HealthStatus, ModelSize } from '@/lib/types';
+import { HealthStatus, ModelSize, TranscriptionPreset, TranscriptionRequest } from '@/lib/types';
 import { useTranscription } from '@/hooks/useTranscription';
+import { useTranscriptionQueue } from '@/hooks/useTranscriptionQueue';
+import { useTranscriptEditor } from '@/hooks/useTranscriptEditor';
+import { useAdvancedOptions } from '@/hooks/useAdvancedOptions';
+import { usePresets } from '@/hooks/usePresets';
+import { useGlossaries } from '@/hooks/useGlossaries';
+import { useModelEstimates } from '@/hooks/useModelEstimates';
+import { useModelRegistry } from '@/hooks/useModelRegistry';
+import { findMatchingPreset } from '@/lib/presets';
+import { buildGlossaryPrompt } from '@/lib/glossary';
+import { readMediaDuration } from '@/lib/media';
 
 import FileUploadCard from '@/components/FileUploadCard';
 import ModelSelectionCard from '@/components/ModelSelectionCard';
+import AdvancedOptionsCard from '@/components/AdvancedOptionsCard';
+import PresetManagerDialog from '@/components/PresetManagerDialog';
+import GlossaryCard from '@/components/GlossaryCard';
 import FileInfoCard from '@/components/FileInfoCard';
 import TranscriptionResultCard from '@/components/TranscriptionResultCard';
 import StatsCard from '@/components/StatsCard';
+import TranscriptionQueueCard from '@/components/TranscriptionQueueCard';
+import RecordingCard from '@/components/RecordingCard';
 import YouTubeInput from '@/components/ui/YouTubeInput';
 
 export default function Home() {
   const [health, setHealth] = useState<HealthStatus | null>(null);
   const [selectedModel, setSelectedModel] = useState<ModelSize>('base');
+  const advancedOptions = useAdvancedOptions(health);
+  const presetStore = usePresets();
+  const glossaryStore = useGlossaries();
+  const [presetManagerOpen, setPresetManagerOpen] = useState(false);
+
+  // A preset stays highlighted only while the current settings still match it
+  const activePreset = findMatchingPreset(presetStore.presets, selectedModel, advancedOptions.options);
+
+  const applyPreset = (preset: TranscriptionPreset) => {
+    setSelectedModel(preset.model);
+    advancedOptions.setOptions(preset.options);
+    glossaryStore.setActiveId(preset.glossaryId ?? null);
+    toast.success(`"${preset.name}" ön ayarı uygulandı`);
+  };
 
   const {
     uploadState,
     transcriptionState,
+    connectionState,
     fileInfo,
     processFile,
     downloadResult,
     copyToClipboard,
     reset,
     isProcessing,
-    isComplete,
   } = useTranscription({
     onSuccess: (result) => {
       console.log('Transcription successful:', result);
@@ -50,6 +83,52 @@ export default function Home() {
     },
   });
 
+  const queue = useTranscriptionQueue({
+    onItemComplete: (item) => {
+      toast.success(`Tamamlandı: ${item.file.name}`);
+    },
+  });
+
+  // A completed queue item can be opened in the result view
+  const [openedQueueItemId, setOpenedQueueItemId] = useState<string | null>(null);
+  const openedQueueItem = queue.items.find(item => item.id === openedQueueItemId);
+  const displayedState = openedQueueItem?.transcription ?? transcriptionState;
+
+  // Edits apply to whichever result is on screen
+  const editor = useTranscriptEditor(displayedState.result);
+
+  // The browser reads a picked file's duration so estimates show before anything is uploaded
+  const [pendingDuration, setPendingDuration] = useState<number>();
+  const pendingFileRef = useRef<File | null>(null);
+
+  const handlePendingFile = (file: File | null) => {
+    pendingFileRef.current = file;
+    setPendingDuration(undefined);
+    if (!file) return;
+    readMediaDuration(file).then((duration) => {
+      if (pendingFileRef.current === file) setPendingDuration(duration);
+    });
+  };
+
+  const modelRegistry = useModelRegistry(health);
+  const modelIds = useMemo(() => modelRegistry.models.map(model => model.id), [modelRegistry.models]);
+  const modelEstimates = useModelEstimates({
+    duration: fileInfo?.duration ?? pendingDuration,
+    health,
+    models: modelIds,
+    refreshKey: transcriptionState.status === 'completed' ? transcriptionState.taskId : undefined,
+  });
+
+  // A model the server does not offer (the default, an old preset) would fail; switch to one it does
+  const { recommendedModel } = modelEstimates;
+  useEffect(() => {
+    if (modelIds.length > 0 && !modelIds.includes(selectedModel)) {
+      const fallback = recommendedModel ?? modelIds[0];
+      setSelectedModel(fallback);
+      toast.info(`Sunucu "${selectedModel}" modelini sunmuyor; "${fallback}" seçildi`);
+    }
+  }, [modelIds, selectedModel, recommendedModel]);
+
   // Check API health on mount
   useEffect(() => {
     checkHealth();
@@ -65,13 +144,28 @@ export default function Home() {
     }
   };
 
-  const handleFileSelect = async (file: File) => {
-    await processFile(file, {
+  const getTranscriptionOptions = (): TranscriptionRequest => {
+    const request: TranscriptionRequest = {
       model_size: selectedModel,
-      language: 'tr',
-      apply_vad: true,
-      normalize_audio: true,
-    });
+      ...advancedOptions.getRequestOptions(),
+    };
+
+    // Glossary terms follow the user's own prompt within Whisper's token budget
+    const terms = glossaryStore.activeGlossary?.terms;
+    if (terms?.length) {
+      request.initial_prompt = buildGlossaryPrompt(terms, request.initial_prompt).prompt;
+    }
+    return request;
+  };
+
+  const handleFileSelect = async (file: File) => {
+    setOpenedQueueItemId(null);
+    await processFile(file, getTranscriptionOptions());
+  };
+
+  const handleFilesSelect = (files: File[]) => {
+    queue.addFiles(files, getTranscriptionOptions());
+    toast.info(`${files.length} dosya kuyruğa eklendi`);
   };
 
   return (
@@ -129,6 +223,27 @@ export default function Home() {
                     </Badge>
                   </>
                 )}
+                <Link
+                  href="/history"
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-slate-400 hover:text-white transition-colors rounded-lg hover:bg-slate-800/50"
+                >
+                  <History className="w-4 h-4" />
+                  Geçmiş
+                </Link>
+                <Link
+                  href="/compare"
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-slate-400 hover:text-white transition-colors rounded-lg hover:bg-slate-800/50"
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Karşılaştır
+                </Link>
+                <Link
+                  href="/evaluate"
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-slate-400 hover:text-white transition-colors rounded-lg hover:bg-slate-800/50"
+                >
+                  <ClipboardCheck className="w-4 h-4" />
+                  Değerlendir
+                </Link>
                 <a 
                   href="https://github.com" 
                   target="_blank" 
@@ -145,13 +260,16 @@ export default function Home() {
         {/* Main Content */}
         <main className="container mx-auto px-6 py-8">
           {/* Stats Overview */}
-          {isComplete && transcriptionState.result && (
+          {displayedState.status === 'completed' && displayedState.result && (
             <motion.div 
               initial={{ y: -20, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
               className="mb-8"
             >
-              <StatsCard transcription={transcriptionState.result} />
+              <StatsCard
+                transcription={editor.editedResult ?? displayedState.result}
+                fileInfo={openedQueueItem ? openedQueueItem.fileInfo : fileInfo}
+              />
             </motion.div>
           )}
 
@@ -168,6 +286,41 @@ export default function Home() {
                 <ModelSelectionCard 
                   selectedModel={selectedModel}
                   onModelChange={setSelectedModel}
+                  models={modelRegistry.models}
+                  disabled={isProcessing}
+                  estimates={modelEstimates.estimates}
+                  recommendedModel={modelEstimates.recommendedModel}
+                  budgetMinutes={modelEstimates.budgetMinutes}
+                  onBudgetChange={modelEstimates.setBudgetMinutes}
+                  health={health}
+                />
+              </motion.div>
+
+              {/* Advanced Options */}
+              <motion.div
+                initial={{ x: -20, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ delay: 0.15 }}
+              >
+                <AdvancedOptionsCard
+                  options={advancedOptions.options}
+                  errors={advancedOptions.errors}
+                  health={health}
+                  onChange={advancedOptions.setOption}
+                  onReset={advancedOptions.resetOptions}
+                  disabled={isProcessing}
+                />
+              </motion.div>
+
+              {/* Glossary */}
+              <motion.div
+                initial={{ x: -20, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ delay: 0.175 }}
+              >
+                <GlossaryCard
+                  glossaryStore={glossaryStore}
+                  basePrompt={advancedOptions.getRequestOptions().initial_prompt}
                   disabled={isProcessing}
                 />
               </motion.div>
@@ -180,8 +333,24 @@ export default function Home() {
               >
                 <FileUploadCard
                   onFileSelect={handleFileSelect}
+                  onFilesSelect={handleFilesSelect}
                   isProcessing={isProcessing}
                   uploadProgress={uploadState.progress}
+                  presets={presetStore.presets}
+                  activePresetId={activePreset?.id}
+                  onPresetSelect={applyPreset}
+                  onManagePresets={() => setPresetManagerOpen(true)}
+                  onFileChange={handlePendingFile}
+                />
+                <PresetManagerDialog
+                  open={presetManagerOpen}
+                  onOpenChange={setPresetManagerOpen}
+                  presetStore={presetStore}
+                  currentModel={selectedModel}
+                  models={modelRegistry.models}
+                  currentOptions={advancedOptions.options}
+                  glossaries={glossaryStore.glossaries}
+                  currentGlossaryId={glossaryStore.activeGlossary?.id}
                 />
               </motion.div>
 
@@ -234,6 +403,18 @@ export default function Home() {
                 />
               </motion.div>
 
+              {/* Microphone Recording */}
+              <motion.div
+                initial={{ x: -20, opacity: 0 }}
+                animate={{ x: 0, opacity: 1 }}
+                transition={{ delay: 0.3 }}
+              >
+                <RecordingCard
+                  onRecordingComplete={handleFileSelect}
+                  isProcessing={isProcessing}
+                />
+              </motion.div>
+
               {/* File Info */}
               {fileInfo && (
                 <motion.div
@@ -247,18 +428,65 @@ export default function Home() {
             </div>
 
             {/* Right Content - Results */}
-            <div className="xl:col-span-3 lg:col-span-2">
+            <div className="xl:col-span-3 lg:col-span-2 space-y-6">
+              {/* Transcription Queue */}
+              {queue.items.length > 0 && (
+                <motion.div
+                  initial={{ x: 20, opacity: 0 }}
+                  animate={{ x: 0, opacity: 1 }}
+                >
+                  <TranscriptionQueueCard
+                    items={queue.items}
+                    aggregate={queue.aggregate}
+                    concurrency={queue.concurrency}
+                    onConcurrencyChange={queue.setConcurrency}
+                    onPause={queue.pause}
+                    onResume={queue.resume}
+                    onCancel={queue.cancel}
+                    onRetry={queue.retry}
+                    onMove={queue.move}
+                    onRemove={(id) => {
+                      if (id === openedQueueItemId) setOpenedQueueItemId(null);
+                      queue.remove(id);
+                    }}
+                    onClearFinished={() => {
+                      setOpenedQueueItemId(null);
+                      queue.clearFinished();
+                    }}
+                    onOpenResult={(item) => setOpenedQueueItemId(item.id)}
+                  />
+                </motion.div>
+              )}
+
               <motion.div
                 initial={{ x: 20, opacity: 0 }}
                 animate={{ x: 0, opacity: 1 }}
                 transition={{ delay: 0.4 }}
               >
-                <TranscriptionResultCard
-                  transcriptionState={transcriptionState}
-                  onDownload={downloadResult}
-                  onCopy={copyToClipboard}
-                  onReset={reset}
-                />
+                {openedQueueItem ? (
+                  <TranscriptionResultCard
+                    transcriptionState={openedQueueItem.transcription}
+                    mediaFile={openedQueueItem.file}
+                    editor={editor}
+                    defaultExport={activePreset?.export}
+                    glossaryTerms={glossaryStore.activeGlossary?.terms}
+                    onDownload={(format, exportOptions) => downloadResult(format, exportOptions, editor.editedResult, openedQueueItem.file.name)}
+                    onCopy={() => copyToClipboard(editor.editedResult?.text)}
+                    onReset={() => setOpenedQueueItemId(null)}
+                  />
+                ) : (
+                  <TranscriptionResultCard
+                    transcriptionState={transcriptionState}
+                    connectionState={connectionState}
+                    mediaFile={uploadState.file}
+                    editor={editor}
+                    defaultExport={activePreset?.export}
+                    glossaryTerms={glossaryStore.activeGlossary?.terms}
+                    onDownload={(format, exportOptions) => downloadResult(format, exportOptions, editor.editedResult)}
+                    onCopy={() => copyToClipboard(editor.editedResult?.text)}
+                    onReset={reset}
+                  />
+                )}
               </motion.div>
             </div>
           </div>
@@ -0,0 +1,322 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { SlidersHorizontal, ChevronDown, HelpCircle, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  LANGUAGE_OPTIONS,
+  MAX_PROMPT_LENGTH,
+  SAMPLE_RATE_OPTIONS,
+  SPEAKER_RANGE,
+  TEMPERATURE_RANGE
+} from '@/lib/options';
+import {
+  AdvancedOptionErrors,
+  AdvancedOptions,
+  DeviceType,
+  HealthStatus,
+  OutputFormat
+} from '@/lib/types';
+
+interface AdvancedOptionsCardProps {
+  options: AdvancedOptions;
+  errors: AdvancedOptionErrors;
+  health?: HealthStatus | null;
+  onChange: <K extends keyof AdvancedOptions>(field: K, value: AdvancedOptions[K]) => void;
+  onReset: () => void;
+  disabled?: boolean;
+}
+
+const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'txt', label: 'Metin' },
+  { value: 'srt', label: 'SRT' },
+  { value: 'vtt', label: 'WebVTT' },
+  { value: 'all', label: 'Tümü' },
+];
+
+// Empty inputs mean "not set", so the server default applies
+const parseNumber = (value: string): number | undefined =>
+  value === '' ? undefined : Number(value);
+
+export default function AdvancedOptionsCard({
+  options,
+  errors,
+  health,
+  onChange,
+  onReset,
+  disabled = false
+}: AdvancedOptionsCardProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const errorCount = Object.keys(errors).length;
+  const gpuAvailable = health?.gpu_available ?? false;
+
+  const renderLabel = (htmlFor: string, text: string, tooltip: string) => (
+    <Label htmlFor={htmlFor} className="text-xs text-slate-400">
+      {text}
+      <span title={tooltip} className="cursor-help">
+        <HelpCircle className="w-3 h-3" />
+      </span>
+    </Label>
+  );
+
+  const renderError = (field: keyof AdvancedOptions) =>
+    errors[field] && <p className="text-xs text-red-400">{errors[field]}</p>;
+
+  const renderToggle = (
+    field: 'apply_vad' | 'normalize_audio' | 'word_timestamps' | 'diarize',
+    text: string,
+    tooltip: string
+  ) => (
+    <div className="flex items-center justify-between">
+      <span className="flex items-center gap-2 text-sm text-slate-300">
+        {text}
+        <span title={tooltip} className="cursor-help text-slate-500">
+          <HelpCircle className="w-3 h-3" />
+        </span>
+      </span>
+      <Button
+        variant={options[field] ? 'default' : 'outline'}
+        size="sm"
+        className="h-7 w-16"
+        onClick={() => onChange(field, !options[field])}
+        disabled={disabled}
+      >
+        {options[field] ? 'Açık' : 'Kapalı'}
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+      <CardHeader className="cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5 text-amber-500" />
+              Gelişmiş Ayarlar
+            </CardTitle>
+            <CardDescription>
+              {errorCount > 0
+                ? `${errorCount} ayar geçersiz; bu ayarlar gönderilmeyecek`
+                : 'Dil, cihaz, sıcaklık, konuşmacı ayrımı ve diğerleri'}
+            </CardDescription>
+          </div>
+          <ChevronDown className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </div>
+      </CardHeader>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                {/* Language */}
+                <div className="space-y-1">
+                  {renderLabel('language', 'Dil', 'Konuşma dili; otomatik algılama ilk 30 saniyeye bakar')}
+                  <Select
+                    value={options.language ?? 'auto'}
+                    onValueChange={(value) => onChange('language', value)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger id="language" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LANGUAGE_OPTIONS.map(language => (
+                        <SelectItem key={language.value} value={language.value}>
+                          {language.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Device */}
+                <div className="space-y-1">
+                  {renderLabel('device', 'Cihaz', 'CUDA yalnızca sunucuda GPU varsa kullanılabilir')}
+                  <Select
+                    value={options.device ?? 'auto'}
+                    onValueChange={(value) => onChange('device', value as DeviceType)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger id="device" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Otomatik</SelectItem>
+                      <SelectItem value="cpu">CPU</SelectItem>
+                      <SelectItem value="cuda" disabled={!gpuAvailable}>
+                        CUDA {health?.gpu_name ? `(${health.gpu_name})` : !gpuAvailable ? '(GPU yok)' : ''}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {renderError('device')}
+                </div>
+
+                {/* Temperature */}
+                <div className="space-y-1">
+                  {renderLabel(
+                    'temperature',
+                    'Sıcaklık',
+                    `Örnekleme sıcaklığı (${TEMPERATURE_RANGE.min}-${TEMPERATURE_RANGE.max}); 0 en tutarlı sonucu verir`
+                  )}
+                  <Input
+                    id="temperature"
+                    type="number"
+                    step={0.1}
+                    min={TEMPERATURE_RANGE.min}
+                    max={TEMPERATURE_RANGE.max}
+                    value={options.temperature ?? ''}
+                    onChange={(e) => onChange('temperature', parseNumber(e.target.value))}
+                    disabled={disabled}
+                    className="h-9 bg-gray-800/50 border-gray-700"
+                  />
+                  {renderError('temperature')}
+                </div>
+
+                {/* Server Output Format */}
+                <div className="space-y-1">
+                  {renderLabel('output-format', 'Sunucu çıktısı', 'Sunucunun diske yazacağı dosya biçimi')}
+                  <Select
+                    value={options.output_format ?? 'json'}
+                    onValueChange={(value) => onChange('output_format', value as OutputFormat)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger id="output-format" className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_FORMATS.map(format => (
+                        <SelectItem key={format.value} value={format.value}>
+                          {format.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Sample Rate */}
+              <div className="space-y-1">
+                {renderLabel(
+                  'sample-rate',
+                  'Örnekleme hızı',
+                  'Ses bu hıza dönüştürülür; telefon kayıtları için 8 kHz seçin'
+                )}
+                <Select
+                  value={options.sample_rate?.toString() ?? 'auto'}
+                  onValueChange={(value) => onChange('sample_rate', value === 'auto' ? undefined : Number(value))}
+                  disabled={disabled}
+                >
+                  <SelectTrigger id="sample-rate" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Otomatik</SelectItem>
+                    {SAMPLE_RATE_OPTIONS.map(rate => (
+                      <SelectItem key={rate} value={rate.toString()}>
+                        {(rate / 1000).toLocaleString('tr-TR')} kHz
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderError('sample_rate')}
+              </div>
+
+              {/* Initial Prompt */}
+              <div className="space-y-1">
+                {renderLabel(
+                  'initial-prompt',
+                  'Başlangıç metni',
+                  'Özel isimler ve terimler için modele ipucu verir; üslubu da etkiler'
+                )}
+                <textarea
+                  id="initial-prompt"
+                  rows={3}
+                  value={options.initial_prompt ?? ''}
+                  onChange={(e) => onChange('initial_prompt', e.target.value)}
+                  disabled={disabled}
+                  placeholder="Örn. Toplantı: Ayşe Yılmaz, Mehmet Demir, Kubernetes, mikroservis"
+                  className="w-full resize-y rounded-md bg-gray-800/50 border border-gray-700 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-amber-500"
+                />
+                <div className="flex justify-between">
+                  {renderError('initial_prompt') || <span />}
+                  <span className="text-xs text-slate-500">
+                    {(options.initial_prompt ?? '').length}/{MAX_PROMPT_LENGTH}
+                  </span>
+                </div>
+              </div>
+
+              {/* Processing Toggles */}
+              <div className="space-y-2">
+                {renderToggle('apply_vad', 'Sessizlik filtresi (VAD)', 'Sessiz bölümleri atlar; halüsinasyonları azaltır')}
+                {renderToggle('normalize_audio', 'Ses normalizasyonu', 'Düşük kayıt seviyelerini dengeler')}
+                {renderToggle('word_timestamps', 'Kelime zaman damgaları', 'Karaoke görünümü ve kelime bazlı altyazılar için gerekir')}
+                {renderToggle('diarize', 'Konuşmacı ayrımı', 'Röportaj ve toplantılarda kimin konuştuğunu ayırt eder')}
+              </div>
+
+              {/* Speaker Bounds */}
+              {options.diarize && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    {renderLabel('min-speakers', 'En az konuşmacı', 'Boş bırakılırsa otomatik belirlenir')}
+                    <Input
+                      id="min-speakers"
+                      type="number"
+                      min={SPEAKER_RANGE.min}
+                      max={SPEAKER_RANGE.max}
+                      placeholder="Otomatik"
+                      value={options.min_speakers ?? ''}
+                      onChange={(e) => onChange('min_speakers', parseNumber(e.target.value))}
+                      disabled={disabled}
+                      className="h-9 bg-gray-800/50 border-gray-700"
+                    />
+                    {renderError('min_speakers')}
+                  </div>
+                  <div className="space-y-1">
+                    {renderLabel('max-speakers', 'En fazla konuşmacı', 'Boş bırakılırsa otomatik belirlenir')}
+                    <Input
+                      id="max-speakers"
+                      type="number"
+                      min={SPEAKER_RANGE.min}
+                      max={SPEAKER_RANGE.max}
+                      placeholder="Otomatik"
+                      value={options.max_speakers ?? ''}
+                      onChange={(e) => onChange('max_speakers', parseNumber(e.target.value))}
+                      disabled={disabled}
+                      className="h-9 bg-gray-800/50 border-gray-700"
+                    />
+                    {renderError('max_speakers')}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onReset}
+                  disabled={disabled}
+                  className="text-slate-400 hover:text-white"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Varsayılanlara dön
+                </Button>
+              </div>
+            </CardContent>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </Card>
+  );
+}
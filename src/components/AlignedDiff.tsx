@@ -0,0 +1,57 @@
+'use client';
+
+import { WordDiff } from '@/lib/types';
+
+interface AlignedDiffProps {
+  diff: WordDiff;
+}
+
+// Reference and transcript interleaved word by word: struck-through words are what the
+// reference says, highlighted words are what the transcript wrote instead
+export default function AlignedDiff({ diff }: AlignedDiffProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 text-[10px] text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm bg-yellow-500/60" />
+          Yanlış kelime (S)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm bg-red-500/60" />
+          Eksik kelime (D)
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm bg-green-500/60" />
+          Fazla kelime (I)
+        </span>
+      </div>
+      <div className="max-h-[480px] overflow-y-auto rounded-lg border border-gray-700 bg-gray-800/30 p-3 text-sm leading-loose text-gray-300">
+        {diff.entries.map((entry, index) => {
+          switch (entry.op) {
+            case 'substitute':
+              return (
+                <span key={index}>
+                  <del className="bg-red-500/10 text-red-300/80 rounded px-0.5">{entry.reference}</del>
+                  <ins className="bg-yellow-500/20 text-yellow-200 rounded px-0.5 no-underline">{entry.hypothesis}</ins>{' '}
+                </span>
+              );
+            case 'delete':
+              return (
+                <span key={index}>
+                  <del title="Transcriptte eksik" className="bg-red-500/20 text-red-300 rounded px-0.5">{entry.reference}</del>{' '}
+                </span>
+              );
+            case 'insert':
+              return (
+                <span key={index}>
+                  <ins title="Referansta yok" className="bg-green-500/20 text-green-200 rounded px-0.5 no-underline">{entry.hypothesis}</ins>{' '}
+                </span>
+              );
+            default:
+              return <span key={index}>{entry.reference} </span>;
+          }
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useRef } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getModelName } from '@/lib/models';
+import { ComparisonRow, ComparisonRun, ModelSize, WordDiffEntry } from '@/lib/types';
+
+interface ComparisonColumnsProps {
+  runs: ComparisonRun[];
+  rows: ComparisonRow[];
+  referenceModel?: ModelSize;
+}
+
+const renderEntry = (entry: WordDiffEntry) => {
+  switch (entry.op) {
+    case 'substitute':
+      return (
+        <span title={`Referans: ${entry.reference}`} className="bg-yellow-500/20 text-yellow-200 rounded px-0.5">
+          {entry.hypothesis}
+        </span>
+      );
+    case 'insert':
+      return (
+        <span title="Referansta yok" className="bg-green-500/20 text-green-200 rounded px-0.5">
+          {entry.hypothesis}
+        </span>
+      );
+    case 'delete':
+      return (
+        <del title="Bu modelde eksik" className="bg-red-500/20 text-red-300 rounded px-0.5">
+          {entry.reference}
+        </del>
+      );
+    default:
+      return entry.hypothesis;
+  }
+};
+
+// One column per model; scrolling any column scrolls the others to the same relative position
+export default function ComparisonColumns({ runs, rows, referenceModel }: ComparisonColumnsProps) {
+  const columnRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const syncingRef = useRef(false);
+
+  const handleScroll = (source: number) => {
+    // Setting scrollTop fires scroll on the other columns; ignore those echoes
+    if (syncingRef.current) return;
+    const from = columnRefs.current[source];
+    if (!from) return;
+
+    const ratio = from.scrollTop / Math.max(1, from.scrollHeight - from.clientHeight);
+    syncingRef.current = true;
+    columnRefs.current.forEach((column, index) => {
+      if (column && index !== source) {
+        column.scrollTop = ratio * (column.scrollHeight - column.clientHeight);
+      }
+    });
+    requestAnimationFrame(() => {
+      syncingRef.current = false;
+    });
+  };
+
+  const completed = rows
+    .map(row => ({ row, run: runs.find(run => run.model === row.model) }))
+    .filter(({ run }) => run?.result);
+
+  if (completed.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3 text-[10px] text-gray-500">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm bg-yellow-500/60" />
+          Farklı kelime
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm bg-green-500/60" />
+          Fazla kelime
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm bg-red-500/60" />
+          Eksik kelime
+        </span>
+      </div>
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${completed.length}, minmax(0, 1fr))` }}
+      >
+        {completed.map(({ row, run }, index) => (
+          <div key={row.model} className="rounded-lg border border-gray-700 bg-gray-800/30">
+            <div className="flex items-center justify-between gap-2 border-b border-gray-700 px-3 py-2">
+              <span className="text-sm font-medium text-white">{getModelName(row.model)}</span>
+              {row.model === referenceModel ? (
+                <Badge variant="outline" className="text-xs">Referans</Badge>
+              ) : (
+                <span className="text-xs text-gray-400">%{Math.round((row.agreement ?? 0) * 100)} uyum</span>
+              )}
+            </div>
+            <div
+              ref={(element) => {
+                columnRefs.current[index] = element;
+              }}
+              onScroll={() => handleScroll(index)}
+              className="h-96 overflow-y-auto px-3 py-2 text-sm leading-relaxed text-gray-300"
+            >
+              {row.diff ? (
+                row.diff.entries.map((entry, entryIndex) => (
+                  <span key={entryIndex}>
+                    {renderEntry(entry)}{' '}
+                  </span>
+                ))
+              ) : (
+                run?.result?.text
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
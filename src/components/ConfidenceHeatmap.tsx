@@ -0,0 +1,62 @@
+'use client';
+
+import { CONFIDENCE_COLORS, HALLUCINATION_LABELS } from '@/lib/confidence';
+import { SegmentConfidence, TranscriptionSegment } from '@/lib/types';
+
+interface ConfidenceHeatmapProps {
+  segments: TranscriptionSegment[];
+  confidence: Map<number, SegmentConfidence>;
+  activeSegmentId?: number;
+  onSelect: (segment: TranscriptionSegment) => void;
+}
+
+// One cell per segment, as wide as the segment is long, across the whole recording
+export default function ConfidenceHeatmap({
+  segments,
+  confidence,
+  activeSegmentId,
+  onSelect
+}: ConfidenceHeatmapProps) {
+  const total = segments.reduce((sum, segment) => sum + Math.max(segment.end - segment.start, 0), 0);
+  if (total === 0) return null;
+
+  return (
+    <div className="space-y-1 mb-2">
+      <div className="flex h-3 w-full overflow-hidden rounded bg-gray-800">
+        {segments.map(segment => {
+          const result = confidence.get(segment.id);
+          const level = result?.level ?? 'unknown';
+          const flagged = (result?.flags.length ?? 0) > 0;
+          const details = [
+            result?.score !== undefined ? `Güven: %${Math.round(result.score * 100)}` : 'Güven bilinmiyor',
+            ...(result?.flags ?? []).map(flag => HALLUCINATION_LABELS[flag]),
+          ].join(' · ');
+          return (
+            <button
+              key={segment.id}
+              type="button"
+              title={`${segment.text.slice(0, 60)}\n${details}`}
+              onClick={() => onSelect(segment)}
+              style={{ width: `${(Math.max(segment.end - segment.start, 0) / total) * 100}%` }}
+              className={`h-full ${CONFIDENCE_COLORS[level].cell} ${flagged ? 'opacity-100 ring-1 ring-inset ring-white/70' : 'opacity-70'} ${
+                segment.id === activeSegmentId ? 'brightness-150' : ''
+              } hover:opacity-100`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-3 text-[10px] text-gray-500">
+        {(['high', 'medium', 'low'] as const).map(level => (
+          <span key={level} className="flex items-center gap-1">
+            <span className={`inline-block w-2 h-2 rounded-sm ${CONFIDENCE_COLORS[level].cell}`} />
+            {CONFIDENCE_COLORS[level].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-2 h-2 rounded-sm ring-1 ring-white/70" />
+          Olası halüsinasyon
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef, DragEvent, ChangeEvent } from 'react';
+import { useState, useRef, useEffect, DragEvent, ChangeEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Upload, 
@@ -9,31 +9,80 @@ import {
   Mic, 
   X, 
   Loader2,
-  CheckCircle
+  CheckCircle,
+  FolderOpen,
+  Bookmark,
+  Settings2
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { TranscriptionPreset } from '@/lib/types';
 
 interface FileUploadCardProps {
   onFileSelect: (file: File) => void;
+  onFilesSelect?: (files: File[]) => void;
   isProcessing: boolean;
   uploadProgress?: number;
+  presets?: TranscriptionPreset[];
+  activePresetId?: string;
+  onPresetSelect?: (preset: TranscriptionPreset) => void;
+  onManagePresets?: () => void;
+  // Called when a single file is picked or removed, before it is uploaded
+  onFileChange?: (file: File | null) => void;
 }
 
 const ALLOWED_EXTENSIONS = ['mp3', 'wav', 'mp4', 'avi', 'mov', 'mkv', 'webm', 'm4a'];
 const MAX_FILE_SIZE = 5 * 1024 * 1024 * 1024; // 5GB
 
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// Walk a dropped folder recursively; readEntries() returns entries in batches
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return [await readEntryFile(entry as FileSystemFileEntry)];
+  }
+
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  let batch = await readDirectoryEntries(reader);
+  while (batch.length > 0) {
+    for (const child of batch) {
+      files.push(...await collectEntryFiles(child));
+    }
+    batch = await readDirectoryEntries(reader);
+  }
+  return files;
+};
+
 export default function FileUploadCard({ 
   onFileSelect, 
+  onFilesSelect,
   isProcessing,
-  uploadProgress = 0 
+  uploadProgress = 0,
+  presets,
+  activePresetId,
+  onPresetSelect,
+  onManagePresets,
+  onFileChange
 }: FileUploadCardProps) {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory is not part of React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const validateFile = (file: File): string | null => {
     // Check file extension
@@ -61,11 +110,41 @@ export default function FileUploadCard({
     }
   };
 
-  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+  // Several files or a folder go to the queue; a single file keeps the one-off flow
+  const handleMultipleFiles = (files: File[]) => {
+    const valid = files.filter(file => !validateFile(file));
+    const skipped = files.length - valid.length;
+
+    if (valid.length === 0) {
+      setError('Desteklenen bir dosya bulunamadı');
+    } else if (skipped > 0) {
+      setError(`${skipped} dosya desteklenmediği için atlandı`);
+    }
+
+    if (valid.length > 0) {
+      onFilesSelect?.(valid);
+    }
+  };
+
+  const handleDrop = async (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
     setError(null);
+
+    if (onFilesSelect) {
+      // Entries must be read synchronously, before the first await
+      const entries = Array.from(e.dataTransfer.items || [])
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+      const droppedFolder = entries.some(entry => entry.isDirectory);
+
+      if (droppedFolder || entries.length > 1) {
+        const files = (await Promise.all(entries.map(collectEntryFiles))).flat();
+        handleMultipleFiles(files);
+        return;
+      }
+    }
     
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const file = e.dataTransfer.files[0];
@@ -77,12 +156,19 @@ export default function FileUploadCard({
       }
       
       setSelectedFile(file);
+      onFileChange?.(file);
     }
   };
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
     setError(null);
+
+    if (onFilesSelect && e.target.files && e.target.files.length > 1) {
+      handleMultipleFiles(Array.from(e.target.files));
+      e.target.value = '';
+      return;
+    }
     
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
@@ -94,6 +180,7 @@ export default function FileUploadCard({
       }
       
       setSelectedFile(file);
+      onFileChange?.(file);
     }
   };
 
@@ -105,6 +192,7 @@ export default function FileUploadCard({
 
   const handleRemoveFile = () => {
     setSelectedFile(null);
+    onFileChange?.(null);
     setError(null);
     if (inputRef.current) {
       inputRef.current.value = '';
@@ -145,6 +233,36 @@ export default function FileUploadCard({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        {presets && onPresetSelect && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Bookmark className="w-4 h-4 text-slate-500" />
+            {presets.map(preset => (
+              <Button
+                key={preset.id}
+                size="sm"
+                variant={preset.id === activePresetId ? 'default' : 'outline'}
+                className="h-7 text-xs"
+                title={preset.description}
+                onClick={() => onPresetSelect(preset)}
+                disabled={isProcessing}
+              >
+                {preset.name}
+              </Button>
+            ))}
+            {onManagePresets && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs text-slate-400 hover:text-white"
+                onClick={onManagePresets}
+              >
+                <Settings2 className="w-3 h-3 mr-1" />
+                Yönet
+              </Button>
+            )}
+          </div>
+        )}
+
         <div
           className={`
             relative border-2 border-dashed rounded-xl p-8 transition-all
@@ -166,9 +284,20 @@ export default function FileUploadCard({
             type="file"
             className="hidden"
             accept={ALLOWED_EXTENSIONS.map(ext => `.${ext}`).join(',')}
+            multiple={!!onFilesSelect}
             onChange={handleChange}
             disabled={isProcessing}
           />
+          {onFilesSelect && (
+            <input
+              ref={folderInputRef}
+              type="file"
+              className="hidden"
+              multiple
+              onChange={handleChange}
+              disabled={isProcessing}
+            />
+          )}
           
           <AnimatePresence mode="wait">
             {!selectedFile ? (
@@ -186,6 +315,21 @@ export default function FileUploadCard({
                 <p className="text-xs text-slate-500">
                   MP3, WAV, MP4, AVI, MOV, MKV
                 </p>
+                {onFilesSelect && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      folderInputRef.current?.click();
+                    }}
+                    disabled={isProcessing}
+                    className="mt-3 text-slate-400 hover:text-white"
+                  >
+                    <FolderOpen className="w-4 h-4 mr-2" />
+                    Klasör seç
+                  </Button>
+                )}
               </motion.div>
             ) : (
               <motion.div
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { BookOpen, ChevronDown, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useGlossaries } from '@/hooks/useGlossaries';
+import { PROMPT_TOKEN_BUDGET, buildGlossaryPrompt, parseTerms } from '@/lib/glossary';
+
+interface GlossaryCardProps {
+  glossaryStore: ReturnType<typeof useGlossaries>;
+  // The advanced options prompt comes first and shares the token budget
+  basePrompt?: string;
+  disabled?: boolean;
+}
+
+export default function GlossaryCard({ glossaryStore, basePrompt, disabled = false }: GlossaryCardProps) {
+  const { glossaries, activeGlossary, setActiveId, createGlossary, updateGlossary, deleteGlossary } = glossaryStore;
+  const [isOpen, setIsOpen] = useState(false);
+
+  const terms = activeGlossary?.terms ?? [];
+  const budget = buildGlossaryPrompt(terms, basePrompt);
+  const droppedTerms = terms.length - budget.includedTerms;
+
+  return (
+    <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+      <CardHeader className="cursor-pointer" onClick={() => setIsOpen(!isOpen)}>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-emerald-500" />
+              Sözlük
+            </CardTitle>
+            <CardDescription>
+              {activeGlossary
+                ? `${activeGlossary.name}: ${terms.length} terim`
+                : 'Ürün adları, soyadları ve alan terimleri için'}
+            </CardDescription>
+          </div>
+          <ChevronDown className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </div>
+      </CardHeader>
+
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={activeGlossary?.id ?? 'none'}
+                  onValueChange={(value) => setActiveId(value === 'none' ? null : value)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="h-9 flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sözlük kullanma</SelectItem>
+                    {glossaries.map(glossary => (
+                      <SelectItem key={glossary.id} value={glossary.id}>
+                        {glossary.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Yeni sözlük"
+                  onClick={() => createGlossary(`Sözlük ${glossaries.length + 1}`)}
+                  disabled={disabled}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+                {activeGlossary && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Sözlüğü sil"
+                    onClick={() => deleteGlossary(activeGlossary.id)}
+                    disabled={disabled}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {activeGlossary && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="glossary-name" className="text-xs text-slate-400">Ad</Label>
+                    <Input
+                      id="glossary-name"
+                      value={activeGlossary.name}
+                      onChange={(e) => updateGlossary(activeGlossary.id, { name: e.target.value })}
+                      disabled={disabled}
+                      className="h-9 bg-gray-800/50 border-gray-700"
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="glossary-terms" className="text-xs text-slate-400">
+                      Terimler (her satıra bir tane, önemliler üstte)
+                    </Label>
+                    {/* Uncontrolled so separators being typed are not swallowed by parsing; keyed to reset per glossary.
+                        Terms are committed on every change so a transcription started right away uses them */}
+                    <textarea
+                      key={activeGlossary.id}
+                      id="glossary-terms"
+                      rows={6}
+                      defaultValue={terms.join('\n')}
+                      onChange={(e) => updateGlossary(activeGlossary.id, { terms: parseTerms(e.target.value) })}
+                      disabled={disabled}
+                      placeholder={'Kubernetes\nAyşe Yılmaz\nanjiyografi'}
+                      className="w-full resize-y rounded-md bg-gray-800/50 border border-gray-700 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-emerald-500"
+                    />
+                    <div className="flex justify-between text-xs">
+                      <span className={droppedTerms > 0 ? 'text-yellow-400' : 'text-slate-500'}>
+                        {droppedTerms > 0
+                          ? `${droppedTerms} terim isteme sığmıyor; sonuçta yine de düzeltme önerilir`
+                          : 'Tüm terimler isteme ekleniyor'}
+                      </span>
+                      <span className="text-slate-500">
+                        ~{budget.tokens}/{PROMPT_TOKEN_BUDGET} token
+                      </span>
+                    </div>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </Card>
+  );
+}
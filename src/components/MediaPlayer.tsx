@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect, RefObject } from 'react';
+import { Repeat, Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TranscriptionSegment } from '@/lib/types';
+
+interface MediaPlayerProps {
+  file: File;
+  mediaRef: RefObject<HTMLMediaElement | null>;
+  activeSegment?: TranscriptionSegment;
+  onTimeUpdate: (time: number) => void;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+const VIDEO_EXTENSIONS = ['mp4', 'avi', 'mov', 'mkv', 'webm'];
+
+const isVideoFile = (file: File): boolean => {
+  if (file.type) return file.type.startsWith('video/');
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  return VIDEO_EXTENSIONS.includes(extension || '');
+};
+
+export default function MediaPlayer({
+  file,
+  mediaRef,
+  activeSegment,
+  onTimeUpdate
+}: MediaPlayerProps) {
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loopRange, setLoopRange] = useState<{ start: number; end: number } | null>(null);
+
+  // Object URLs must be revoked, or the whole file stays in memory
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setSourceUrl(url);
+    setLoopRange(null);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  useEffect(() => {
+    if (mediaRef.current) {
+      mediaRef.current.playbackRate = playbackRate;
+    }
+  }, [playbackRate, sourceUrl, mediaRef]);
+
+  const handleTimeUpdate = () => {
+    const media = mediaRef.current;
+    if (!media) return;
+
+    if (loopRange && media.currentTime >= loopRange.end) {
+      media.currentTime = loopRange.start;
+    }
+
+    onTimeUpdate(media.currentTime);
+  };
+
+  const toggleLoop = () => {
+    if (loopRange) {
+      setLoopRange(null);
+    } else if (activeSegment) {
+      setLoopRange({ start: activeSegment.start, end: activeSegment.end });
+    }
+  };
+
+  if (!sourceUrl) return null;
+
+  const mediaProps = {
+    src: sourceUrl,
+    controls: true,
+    onTimeUpdate: handleTimeUpdate,
+    onSeeked: handleTimeUpdate,
+    className: 'w-full rounded-lg',
+  };
+
+  return (
+    <div className="space-y-2">
+      {isVideoFile(file) ? (
+        <video
+          {...mediaProps}
+          ref={(element) => { mediaRef.current = element; }}
+          className="w-full max-h-48 rounded-lg bg-black"
+        />
+      ) : (
+        <audio
+          {...mediaProps}
+          ref={(element) => { mediaRef.current = element; }}
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={toggleLoop}
+          disabled={!loopRange && !activeSegment}
+          className={loopRange ? 'text-violet-400' : 'text-gray-400 hover:text-white'}
+          title="Aktif segmenti tekrarla"
+        >
+          <Repeat className="w-4 h-4 mr-2" />
+          {loopRange ? 'Döngü açık' : 'Segmenti döngüle'}
+        </Button>
+
+        <div className="flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-gray-400" />
+          <Select
+            value={playbackRate.toString()}
+            onValueChange={(value) => setPlaybackRate(Number(value))}
+          >
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map(rate => (
+                <SelectItem key={rate} value={rate.toString()}>
+                  {rate}x
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -10,93 +10,108 @@ import {
   ChevronDown, 
   CheckCircle2,
   Sparkles,
-  Activity
+  Activity,
+  AlertTriangle,
+  Timer,
+  Box
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ModelSize } from '@/lib/types';
+import { Input } from '@/components/ui/input';
+import { KNOWN_MODELS, UNKNOWN_MODEL_GRADIENT, buildModelRegistry, describeModel } from '@/lib/models';
+import { HealthStatus, KnownModelSize, ModelDescriptor, ModelEstimate, ModelSize } from '@/lib/types';
 
 interface ModelSelectionCardProps {
   selectedModel: ModelSize;
   onModelChange: (model: ModelSize) => void;
   disabled?: boolean;
+  // From the server's registry; the built-in sizes when omitted
+  models?: ModelDescriptor[];
+  estimates?: Record<ModelSize, ModelEstimate>;
+  recommendedModel?: ModelSize;
+  budgetMinutes?: number;
+  onBudgetChange?: (minutes: number) => void;
+  health?: HealthStatus | null;
 }
 
-interface ModelConfig {
-  name: string;
-  description: string;
-  speed: 'Çok Hızlı' | 'Hızlı' | 'Orta' | 'Yavaş' | 'Çok Yavaş';
-  quality: 'Temel' | 'İyi' | 'Yüksek' | 'Çok Yüksek' | 'Mükemmel';
-  size: string;
-  icon: React.ReactNode;
-  gradient: string;
-  recommended?: boolean;
-  vram?: string;
-}
+const DEFAULT_MODELS = buildModelRegistry();
 
-const MODEL_CONFIGS: Record<ModelSize, ModelConfig> = {
-  tiny: {
-    name: 'Tiny',
-    description: 'En hızlı model, temel kalite',
-    speed: 'Çok Hızlı',
-    quality: 'Temel',
-    size: '~39 MB',
-    vram: '~1 GB',
-    icon: <Zap className="w-4 h-4" />,
-    gradient: 'from-green-500 to-emerald-500',
-  },
-  base: {
-    name: 'Base',
-    description: 'Hız ve kalite dengesi',
-    speed: 'Hızlı',
-    quality: 'İyi',
-    size: '~74 MB',
-    vram: '~1 GB',
-    icon: <Target className="w-4 h-4" />,
-    gradient: 'from-blue-500 to-cyan-500',
-    recommended: true,
-  },
-  small: {
-    name: 'Small',
-    description: 'Daha iyi kalite, makul hız',
-    speed: 'Orta',
-    quality: 'Yüksek',
-    size: '~244 MB',
-    vram: '~2 GB',
-    icon: <Activity className="w-4 h-4" />,
-    gradient: 'from-purple-500 to-violet-500',
-  },
-  medium: {
-    name: 'Medium',
-    description: 'Yüksek kalite, daha yavaş',
-    speed: 'Yavaş',
-    quality: 'Çok Yüksek',
-    size: '~769 MB',
-    vram: '~5 GB',
-    icon: <Sparkles className="w-4 h-4" />,
-    gradient: 'from-orange-500 to-red-500',
-  },
-  large: {
-    name: 'Large',
-    description: 'En yüksek kalite, en yavaş',
-    speed: 'Çok Yavaş',
-    quality: 'Mükemmel',
-    size: '~1550 MB',
-    vram: '~10 GB',
-    icon: <Cpu className="w-4 h-4" />,
-    gradient: 'from-pink-500 to-rose-500',
-  },
+const MODEL_ICONS: Record<KnownModelSize, React.ReactNode> = {
+  tiny: <Zap className="w-4 h-4" />,
+  base: <Target className="w-4 h-4" />,
+  small: <Activity className="w-4 h-4" />,
+  medium: <Sparkles className="w-4 h-4" />,
+  large: <Cpu className="w-4 h-4" />,
+};
+
+// Built-in sizes and checkpoints derived from them share the size's look
+const getModelIcon = (model: ModelDescriptor): React.ReactNode =>
+  model.family ? MODEL_ICONS[model.family] : <Box className="w-4 h-4" />;
+
+const getModelGradient = (model: ModelDescriptor): string =>
+  model.family ? KNOWN_MODELS[model.family].gradient : UNKNOWN_MODEL_GRADIENT;
+
+const getLanguageLabel = (languages?: string[]): string | undefined => {
+  if (!languages?.length) return undefined;
+  return languages.length === 1 ? `Yalnızca ${languages[0].toUpperCase()}` : `${languages.length} dil`;
 };
 
 export default function ModelSelectionCard({ 
   selectedModel, 
   onModelChange, 
-  disabled = false 
+  disabled = false,
+  models = DEFAULT_MODELS,
+  estimates,
+  recommendedModel,
+  budgetMinutes,
+  onBudgetChange,
+  health
 }: ModelSelectionCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [hoveredModel, setHoveredModel] = useState<ModelSize | null>(null);
+  // Lets the budget field be cleared while typing without committing an empty value
+  const [budgetDraft, setBudgetDraft] = useState<string | null>(null);
+
+  // The page switches away from a model the server does not offer; until then it is still described
+  const selectedConfig = models.find(model => model.id === selectedModel) ?? describeModel(selectedModel);
+  const selectedEstimate = estimates?.[selectedModel];
+
+  const formatEta = (seconds: number): string => {
+    const rounded = Math.max(1, Math.round(seconds));
+    const hours = Math.floor(rounded / 3600);
+    const minutes = Math.floor((rounded % 3600) / 60);
+    const secs = rounded % 60;
+
+    if (hours > 0) return `${hours} sa ${minutes} dk`;
+    if (minutes > 0) return `${minutes} dk ${secs} sn`;
+    return `${secs} sn`;
+  };
+
+  const isOverBudget = (estimate?: ModelEstimate): boolean =>
+    !!budgetMinutes && estimate?.seconds !== undefined && estimate.seconds > budgetMinutes * 60;
+
+  const getEstimateTitle = (estimate: ModelEstimate): string => {
+    const rtf = `Gerçek zaman faktörü ${estimate.realTimeFactor.toFixed(2)}x`;
+    switch (estimate.source) {
+      case 'measured': return `${rtf}; son ${estimate.samples} çalıştırmanızdan ölçüldü`;
+      case 'scaled': return `${rtf}; diğer modellerdeki ölçümlerinize göre uyarlandı`;
+      default: return `${rtf}; bu donanım için varsayılan tahmin`;
+    }
+  };
 
-  const selectedConfig = MODEL_CONFIGS[selectedModel];
+  const renderEstimate = (estimate?: ModelEstimate) => {
+    if (estimate?.seconds === undefined) return null;
+    const over = isOverBudget(estimate);
+    return (
+      <span
+        className={`flex items-center gap-1 ${over ? 'text-red-400' : 'text-gray-400'}`}
+        title={getEstimateTitle(estimate)}
+      >
+        {over ? <AlertTriangle className="w-3 h-3" /> : <Timer className="w-3 h-3" />}
+        ~{formatEta(estimate.seconds)}
+      </span>
+    );
+  };
 
   const getSpeedColor = (speed: string) => {
     switch (speed) {
@@ -145,35 +160,45 @@ export default function ModelSelectionCard({
         >
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
-              <div className={`p-2 rounded-lg bg-gradient-to-r ${selectedConfig.gradient}`}>
-                {selectedConfig.icon}
+              <div className={`p-2 rounded-lg bg-gradient-to-r ${getModelGradient(selectedConfig)}`}>
+                {getModelIcon(selectedConfig)}
               </div>
               <div>
                 <div className="flex items-center gap-2">
                   <span className="font-semibold text-white">{selectedConfig.name}</span>
-                  {selectedConfig.recommended && (
+                  {selectedModel === recommendedModel && (
                     <Badge className="text-xs bg-gradient-to-r from-purple-500 to-pink-500">
                       Önerilen
                     </Badge>
                   )}
+                  {selectedConfig.loaded && (
+                    <Badge variant="outline" className="text-xs text-green-400" title="Bellekte yüklü; hemen başlar">
+                      Yüklü
+                    </Badge>
+                  )}
                 </div>
                 <p className="text-sm text-gray-400">{selectedConfig.description}</p>
               </div>
             </div>
             <div className="flex items-center gap-3">
               <div className="text-right text-xs">
-                <div className="flex items-center gap-1">
-                  <Clock className="w-3 h-3" />
-                  <span className={getSpeedColor(selectedConfig.speed)}>
-                    {selectedConfig.speed}
-                  </span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <Target className="w-3 h-3" />
-                  <span className={getQualityColor(selectedConfig.quality)}>
-                    {selectedConfig.quality}
-                  </span>
-                </div>
+                {selectedConfig.speed && (
+                  <div className="flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    <span className={getSpeedColor(selectedConfig.speed)}>
+                      {selectedConfig.speed}
+                    </span>
+                  </div>
+                )}
+                {selectedConfig.quality && (
+                  <div className="flex items-center gap-1">
+                    <Target className="w-3 h-3" />
+                    <span className={getQualityColor(selectedConfig.quality)}>
+                      {selectedConfig.quality}
+                    </span>
+                  </div>
+                )}
+                {renderEstimate(selectedEstimate)}
               </div>
               <motion.div
                 animate={{ rotate: isExpanded ? 180 : 0 }}
@@ -185,6 +210,30 @@ export default function ModelSelectionCard({
           </div>
         </motion.div>
 
+        {/* Budget Warning */}
+        {isOverBudget(selectedEstimate) && selectedEstimate?.seconds !== undefined && (
+          <div className="flex items-start gap-2 p-3 rounded-lg border border-red-500/30 bg-red-500/10 text-xs text-red-300">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <div className="space-y-1">
+              <p>
+                {selectedConfig.name} bu dosya için yaklaşık {formatEta(selectedEstimate.seconds)} sürebilir;
+                {' '}{budgetMinutes} dakikalık bütçenizi aşıyor.
+              </p>
+              {recommendedModel && recommendedModel !== selectedModel && !disabled && (
+                <button
+                  type="button"
+                  onClick={() => onModelChange(recommendedModel)}
+                  className="underline hover:text-white"
+                >
+                  {models.find(model => model.id === recommendedModel)?.name ?? recommendedModel} modeline geç
+                  {estimates?.[recommendedModel].seconds !== undefined &&
+                    ` (~${formatEta(estimates[recommendedModel].seconds!)})`}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Model Options */}
         <AnimatePresence>
           {isExpanded && (
@@ -195,13 +244,14 @@ export default function ModelSelectionCard({
               transition={{ duration: 0.3 }}
               className="space-y-2"
             >
-              {Object.entries(MODEL_CONFIGS).map(([modelKey, config]) => {
-                const isSelected = modelKey === selectedModel;
-                const isHovered = hoveredModel === modelKey;
+              {models.map(config => {
+                const isSelected = config.id === selectedModel;
+                const isHovered = hoveredModel === config.id;
+                const languageLabel = getLanguageLabel(config.languages);
                 
                 return (
                   <motion.div
-                    key={modelKey}
+                    key={config.id}
                     className={`
                       relative p-3 rounded-lg border cursor-pointer transition-all
                       ${isSelected 
@@ -212,28 +262,31 @@ export default function ModelSelectionCard({
                     `}
                     onClick={() => {
                       if (!disabled) {
-                        onModelChange(modelKey as ModelSize);
+                        onModelChange(config.id);
                         setIsExpanded(false);
                       }
                     }}
-                    onHoverStart={() => setHoveredModel(modelKey as ModelSize)}
+                    onHoverStart={() => setHoveredModel(config.id)}
                     onHoverEnd={() => setHoveredModel(null)}
                     whileHover={!disabled ? { x: 4 } : undefined}
                     layout
                   >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
-                        <div className={`p-2 rounded-lg bg-gradient-to-r ${config.gradient} transition-transform ${isHovered ? 'scale-110' : ''}`}>
-                          {config.icon}
+                        <div className={`p-2 rounded-lg bg-gradient-to-r ${getModelGradient(config)} transition-transform ${isHovered ? 'scale-110' : ''}`}>
+                          {getModelIcon(config)}
                         </div>
                         <div>
                           <div className="flex items-center gap-2">
                             <span className="font-medium text-white">{config.name}</span>
-                            {config.recommended && (
+                            {config.id === recommendedModel && (
                               <Badge variant="outline" className="text-xs">
                                 Önerilen
                               </Badge>
                             )}
+                            {config.loaded && (
+                              <span className="w-2 h-2 rounded-full bg-green-400" title="Bellekte yüklü; hemen başlar" />
+                            )}
                             {isSelected && (
                               <CheckCircle2 className="w-4 h-4 text-green-400" />
                             )}
@@ -243,23 +296,29 @@ export default function ModelSelectionCard({
                       </div>
                       
                       <div className="text-right text-xs space-y-1">
-                        <div className="flex items-center gap-4">
-                          <div className="flex items-center gap-1">
-                            <Clock className="w-3 h-3" />
-                            <span className={getSpeedColor(config.speed)}>
-                              {config.speed}
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-1">
-                            <Target className="w-3 h-3" />
-                            <span className={getQualityColor(config.quality)}>
-                              {config.quality}
-                            </span>
-                          </div>
+                        <div className="flex items-center justify-end gap-4">
+                          {config.speed && (
+                            <div className="flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              <span className={getSpeedColor(config.speed)}>
+                                {config.speed}
+                              </span>
+                            </div>
+                          )}
+                          {config.quality && (
+                            <div className="flex items-center gap-1">
+                              <Target className="w-3 h-3" />
+                              <span className={getQualityColor(config.quality)}>
+                                {config.quality}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                        <div className="flex items-center gap-4 text-gray-500">
-                          <span>{config.size}</span>
-                          <span>VRAM: {config.vram}</span>
+                        <div className="flex items-center justify-end gap-4 text-gray-500">
+                          {config.size && <span>{config.size}</span>}
+                          {config.vram && <span>VRAM: {config.vram}</span>}
+                          {languageLabel && <span>{languageLabel}</span>}
+                          {renderEstimate(estimates?.[config.id])}
                         </div>
                       </div>
                     </div>
@@ -270,6 +329,32 @@ export default function ModelSelectionCard({
           )}
         </AnimatePresence>
 
+        {/* Time Budget */}
+        {onBudgetChange && (
+          <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+            <span>
+              Tahminler {health?.gpu_available ? `GPU${health.gpu_name ? ` (${health.gpu_name})` : ''}` : 'CPU'} içindir
+            </span>
+            <label className="flex items-center gap-2">
+              Süre bütçesi
+              <Input
+                type="number"
+                min={1}
+                value={budgetDraft ?? budgetMinutes ?? ''}
+                onChange={(e) => {
+                  setBudgetDraft(e.target.value);
+                  const minutes = Number(e.target.value);
+                  if (minutes > 0) onBudgetChange(minutes);
+                }}
+                onBlur={() => setBudgetDraft(null)}
+                disabled={disabled}
+                className="h-7 w-16 bg-gray-800/50 border-gray-700 text-xs"
+              />
+              dk
+            </label>
+          </div>
+        )}
+
         {/* Performance Tips */}
         <div className="mt-4 p-3 bg-slate-800/30 rounded-lg border border-slate-700">
           <h4 className="text-sm font-medium text-white mb-2">💡 İpuçları</h4>
@@ -0,0 +1,353 @@
+'use client';
+
+import { useRef, useState, ChangeEvent } from 'react';
+import { Copy, Download, Pencil, Plus, Save, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { usePresets } from '@/hooks/usePresets';
+import { EXPORT_FORMATS, SUBTITLE_FORMATS } from '@/lib/export';
+import { buildModelRegistry } from '@/lib/models';
+import { PresetImportError } from '@/lib/presets';
+import { SUBTITLE_PROFILES } from '@/lib/subtitles';
+import { saveBlob } from '@/lib/download';
+import {
+  AdvancedOptions,
+  DownloadFormat,
+  ExportPreference,
+  Glossary,
+  ModelDescriptor,
+  ModelSize,
+  SubtitleProfileId,
+  TranscriptionPreset
+} from '@/lib/types';
+
+interface PresetManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  presetStore: ReturnType<typeof usePresets>;
+  currentModel: ModelSize;
+  models?: ModelDescriptor[];
+  currentOptions: AdvancedOptions;
+  glossaries: Glossary[];
+  currentGlossaryId?: string;
+}
+
+interface PresetForm {
+  name: string;
+  description: string;
+  model: ModelSize;
+  export: ExportPreference;
+  glossaryId?: string;
+}
+
+const DEFAULT_EXPORT: ExportPreference = { format: 'srt', subtitleProfile: 'netflix' };
+const DEFAULT_MODELS = buildModelRegistry();
+
+const describeOptions = (preset: TranscriptionPreset): string[] => {
+  const { options } = preset;
+  return [
+    preset.model,
+    options.language && options.language !== 'auto' ? options.language : 'otomatik dil',
+    options.sample_rate ? `${options.sample_rate / 1000} kHz` : null,
+    options.apply_vad ? 'VAD' : null,
+    options.diarize ? 'konuşmacı ayrımı' : null,
+    options.initial_prompt ? 'başlangıç metni' : null,
+    EXPORT_FORMATS[preset.export.format].label,
+  ].filter((item): item is string => !!item);
+};
+
+export default function PresetManagerDialog({
+  open,
+  onOpenChange,
+  presetStore,
+  currentModel,
+  models = DEFAULT_MODELS,
+  currentOptions,
+  glossaries,
+  currentGlossaryId
+}: PresetManagerDialogProps) {
+  const { presets, createPreset, updatePreset, duplicatePreset, deletePreset, importPresets, exportPresets } = presetStore;
+  // null: list view, 'new': creating from current settings, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PresetForm | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const startCreate = () => {
+    setEditingId('new');
+    setForm({
+      name: '',
+      description: '',
+      model: currentModel,
+      export: DEFAULT_EXPORT,
+      glossaryId: currentGlossaryId,
+    });
+  };
+
+  const startEdit = (preset: TranscriptionPreset) => {
+    setEditingId(preset.id);
+    setForm({
+      name: preset.name,
+      description: preset.description ?? '',
+      model: preset.model,
+      export: preset.export,
+      glossaryId: preset.glossaryId,
+    });
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleSave = () => {
+    if (!form || !form.name.trim()) return;
+    const draft = {
+      name: form.name.trim(),
+      description: form.description.trim() || undefined,
+      model: form.model,
+      export: form.export,
+      glossaryId: form.glossaryId,
+    };
+
+    if (editingId === 'new') {
+      createPreset({ ...draft, options: currentOptions });
+      toast.success(`"${draft.name}" kaydedildi`);
+    } else if (editingId) {
+      updatePreset(editingId, draft);
+    }
+    closeForm();
+  };
+
+  // Editing the options themselves happens in the advanced settings card
+  const handleCaptureOptions = (preset: TranscriptionPreset) => {
+    updatePreset(preset.id, { model: currentModel, options: currentOptions, glossaryId: currentGlossaryId });
+    toast.success(`"${preset.name}" mevcut ayarlarla güncellendi`);
+  };
+
+  const handleExport = () => {
+    saveBlob(new Blob([exportPresets()], { type: 'application/json' }), 'transcription-presets.json');
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = importPresets(await file.text());
+      toast.success(`${count} ön ayar içe aktarıldı`);
+    } catch (err) {
+      toast.error(err instanceof PresetImportError ? err.message : 'Ön ayarlar içe aktarılamadı');
+    }
+  };
+
+  const setExport = (patch: Partial<ExportPreference>) =>
+    setForm(prev => prev && { ...prev, export: { ...prev.export, ...patch } });
+
+  const renderForm = (current: PresetForm) => (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="preset-name" className="text-xs text-slate-400">Ad</Label>
+        <Input
+          id="preset-name"
+          value={current.name}
+          onChange={(e) => setForm({ ...current, name: e.target.value })}
+          placeholder="Örn. Haftalık toplantı"
+          className="h-9 bg-gray-800/50 border-gray-700"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="preset-description" className="text-xs text-slate-400">Açıklama</Label>
+        <Input
+          id="preset-description"
+          value={current.description}
+          onChange={(e) => setForm({ ...current, description: e.target.value })}
+          className="h-9 bg-gray-800/50 border-gray-700"
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-400">Model</Label>
+          <Select value={current.model} onValueChange={(value) => setForm({ ...current, model: value as ModelSize })}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {models.map(model => (
+                <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+              ))}
+              {!models.some(model => model.id === current.model) && (
+                <SelectItem value={current.model}>{current.model}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-400">Dışa aktarma</Label>
+          <Select
+            value={current.export.format}
+            onValueChange={(value) => setExport({ format: value as DownloadFormat })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.entries(EXPORT_FORMATS) as [DownloadFormat, { label: string }][]).map(([id, format]) => (
+                <SelectItem key={id} value={id}>{format.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {SUBTITLE_FORMATS.includes(current.export.format) && (
+          <div className="space-y-1">
+            <Label className="text-xs text-slate-400">Altyazı profili</Label>
+            <Select
+              value={current.export.subtitleProfile ?? 'original'}
+              onValueChange={(value) => setExport({
+                subtitleProfile: value === 'original' ? undefined : value as SubtitleProfileId,
+              })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">Orijinal segmentler</SelectItem>
+                {Object.values(SUBTITLE_PROFILES).map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>{profile.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-slate-400">Sözlük</Label>
+        <Select
+          value={current.glossaryId ?? 'none'}
+          onValueChange={(value) => setForm({ ...current, glossaryId: value === 'none' ? undefined : value })}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Sözlük kullanma</SelectItem>
+            {glossaries.map(glossary => (
+              <SelectItem key={glossary.id} value={glossary.id}>{glossary.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {editingId === 'new' && (
+        <p className="text-xs text-slate-500">
+          Dil, cihaz, VAD ve diğer gelişmiş ayarlar şu anki seçimlerinizden alınır.
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={closeForm}>Vazgeç</Button>
+        <Button size="sm" onClick={handleSave} disabled={!current.name.trim()}>
+          <Save className="w-4 h-4 mr-2" />
+          Kaydet
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) closeForm(); onOpenChange(next); }}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Ön Ayarlar</DialogTitle>
+          <DialogDescription>
+            Model, gelişmiş ayarlar ve dışa aktarma biçimini tek tıkla uygulanacak şekilde kaydedin.
+          </DialogDescription>
+        </DialogHeader>
+
+        {form ? renderForm(form) : (
+          <ScrollArea className="max-h-96 pr-2">
+            <div className="space-y-2">
+              {presets.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-6">Kayıtlı ön ayar yok</p>
+              )}
+              {presets.map(preset => (
+                <div key={preset.id} className="rounded-lg border border-slate-800 bg-slate-900/50 p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-white truncate">{preset.name}</p>
+                      {preset.description && (
+                        <p className="text-xs text-slate-400 truncate">{preset.description}</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button variant="ghost" size="sm" title="Mevcut ayarları bu ön ayara kaydet" onClick={() => handleCaptureOptions(preset)}>
+                        <Save className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Düzenle" onClick={() => startEdit(preset)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title="Çoğalt" onClick={() => duplicatePreset(preset.id)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Sil"
+                        onClick={() => deletePreset(preset.id)}
+                        className="text-red-400 hover:text-red-300"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {describeOptions(preset).map(item => (
+                      <Badge key={item} variant="outline" className="text-xs">{item}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {!form && (
+          <DialogFooter className="sm:justify-between">
+            <div className="flex gap-2">
+              <input
+                ref={importRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImport}
+              />
+              <Button variant="outline" size="sm" onClick={() => importRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                İçe aktar
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={presets.length === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Dışa aktar
+              </Button>
+            </div>
+            <Button size="sm" onClick={startCreate}>
+              <Plus className="w-4 h-4 mr-2" />
+              Mevcut ayarları kaydet
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
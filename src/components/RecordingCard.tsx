@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Mic, Pause, Play, Square, Trash2, Send, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useMediaRecorder } from '@/hooks/useMediaRecorder';
+import { formatRecordingTime } from '@/lib/recording';
+
+interface RecordingCardProps {
+  onRecordingComplete: (file: File) => void;
+  isProcessing: boolean;
+  maxDuration?: number;
+}
+
+// Select items cannot have an empty value
+const DEFAULT_DEVICE = 'default-input';
+
+export default function RecordingCard({ onRecordingComplete, isProcessing, maxDuration }: RecordingCardProps) {
+  const recorder = useMediaRecorder({ maxDuration });
+  const { status, devices, deviceId, level, elapsed, recording, previewUrl, error, limitReached } = recorder;
+  const isActive = status === 'recording' || status === 'paused';
+
+  useEffect(() => {
+    if (limitReached) {
+      toast.warning(`Kayıt ${formatRecordingTime(recorder.maxDuration)} sınırına ulaştı ve durduruldu`);
+    }
+  }, [limitReached, recorder.maxDuration]);
+
+  const handleSubmit = () => {
+    if (!recording) return;
+    onRecordingComplete(recording);
+    recorder.discard();
+  };
+
+  return (
+    <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mic className="w-5 h-5 text-red-500" />
+          Mikrofondan Kaydet
+          {status === 'recording' && (
+            <Badge variant="destructive" className="ml-auto animate-pulse">Kayıtta</Badge>
+          )}
+          {status === 'paused' && (
+            <Badge variant="outline" className="ml-auto">Duraklatıldı</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Tarayıcıdan doğrudan kayıt yapın (Maks: {formatRecordingTime(recorder.maxDuration)})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!recorder.isSupported ? (
+          <p className="flex items-center gap-2 text-sm text-yellow-400">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            Bu tarayıcı mikrofondan kaydı desteklemiyor
+          </p>
+        ) : (
+          <>
+            <Select
+              value={deviceId ?? DEFAULT_DEVICE}
+              onValueChange={(value) => recorder.setDeviceId(value === DEFAULT_DEVICE ? undefined : value)}
+              disabled={isActive || status === 'requesting'}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>Varsayılan mikrofon</SelectItem>
+                {devices
+                  .filter(device => device.deviceId && device.deviceId !== 'default')
+                  .map((device, index) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {device.label || `Mikrofon ${index + 1}`}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+
+            {/* Level meter */}
+            <div className="space-y-1">
+              <div className="h-2 rounded-full bg-gray-800 overflow-hidden" title="Giriş seviyesi">
+                <div
+                  className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : level > 0.6 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                  style={{ width: `${Math.round(level * 100)}%` }}
+                />
+              </div>
+              <div className="flex justify-between text-xs text-gray-400">
+                <span className="font-mono">
+                  {formatRecordingTime(elapsed)} / {formatRecordingTime(recorder.maxDuration)}
+                </span>
+                {status === 'recording' && level < 0.02 && (
+                  <span className="text-yellow-400">Ses algılanmıyor</span>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {!isActive ? (
+                <Button
+                  onClick={recorder.start}
+                  disabled={isProcessing || status === 'requesting'}
+                  className="bg-red-600 hover:bg-red-700"
+                >
+                  {status === 'requesting'
+                    ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    : <Mic className="w-4 h-4 mr-2" />}
+                  {recording ? 'Yeniden Kaydet' : 'Kayda Başla'}
+                </Button>
+              ) : (
+                <>
+                  {status === 'recording' ? (
+                    <Button variant="outline" onClick={recorder.pause}>
+                      <Pause className="w-4 h-4 mr-2" />
+                      Duraklat
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={recorder.resume}>
+                      <Play className="w-4 h-4 mr-2" />
+                      Devam Et
+                    </Button>
+                  )}
+                  <Button variant="destructive" onClick={recorder.stop}>
+                    <Square className="w-4 h-4 mr-2" />
+                    Durdur
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {error && (
+              <p className="flex items-center gap-2 text-sm text-red-400">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </p>
+            )}
+
+            {/* Preview */}
+            {recording && previewUrl && (
+              <div className="space-y-2 rounded-lg border border-gray-800 bg-gray-800/30 p-3">
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                  <span className="truncate">{recording.name}</span>
+                  <span>{(recording.size / 1024 / 1024).toFixed(1)} MB</span>
+                </div>
+                <audio src={previewUrl} controls className="w-full" />
+                <div className="flex gap-2">
+                  <Button onClick={handleSubmit} disabled={isProcessing} className="flex-1">
+                    <Send className="w-4 h-4 mr-2" />
+                    Yazıya Dök
+                  </Button>
+                  <Button variant="outline" onClick={recorder.discard} disabled={isProcessing}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
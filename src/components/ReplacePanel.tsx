@@ -0,0 +1,108 @@
+'use client';
+
+import { Replace, ReplaceAll } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { preserveCase } from '@/lib/search';
+import { ReplaceOccurrence } from '@/lib/types';
+
+interface ReplacePanelProps {
+  occurrences: ReplaceOccurrence[];
+  replacement: string;
+  keepCase: boolean;
+  onReplacementChange: (replacement: string) => void;
+  onKeepCaseChange: (keepCase: boolean) => void;
+  onReplaceOne: (occurrence: ReplaceOccurrence) => void;
+  onReplaceAll: () => void;
+  formatTime: (seconds: number) => string;
+}
+
+// Characters of context shown on each side of an occurrence
+const CONTEXT_LENGTH = 30;
+
+export default function ReplacePanel({
+  occurrences,
+  replacement,
+  keepCase,
+  onReplacementChange,
+  onKeepCaseChange,
+  onReplaceOne,
+  onReplaceAll,
+  formatTime
+}: ReplacePanelProps) {
+  const renderPreview = ({ segment, range }: ReplaceOccurrence) => {
+    const { text } = segment;
+    const original = text.slice(range.start, range.end);
+    const before = text.slice(Math.max(0, range.start - CONTEXT_LENGTH), range.start);
+    const after = text.slice(range.end, range.end + CONTEXT_LENGTH);
+    return (
+      <>
+        {range.start > CONTEXT_LENGTH && '…'}
+        {before}
+        <del className="bg-red-500/20 text-red-300 rounded px-0.5">{original}</del>
+        <ins className="bg-green-500/20 text-green-300 rounded px-0.5 no-underline">
+          {keepCase ? preserveCase(original, replacement) : replacement}
+        </ins>
+        {after}
+        {range.end + CONTEXT_LENGTH < text.length && '…'}
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-700 bg-gray-800/30 p-2">
+      <div className="flex items-center gap-1">
+        <Input
+          placeholder="Yerine..."
+          value={replacement}
+          onChange={(e) => onReplacementChange(e.target.value)}
+          className="h-9 flex-1 bg-gray-800/50 border-gray-700"
+        />
+        <Button
+          variant={keepCase ? 'default' : 'ghost'}
+          size="sm"
+          title="Büyük/küçük harf düzenini koru (İSTANBUL → İZMİR)"
+          onClick={() => onKeepCaseChange(!keepCase)}
+          className="h-9 px-2 text-xs font-mono"
+        >
+          Aa
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onReplaceAll}
+          disabled={occurrences.length === 0}
+          className="h-9"
+        >
+          <ReplaceAll className="w-4 h-4 mr-2" />
+          Tümünü değiştir ({occurrences.length})
+        </Button>
+      </div>
+
+      {occurrences.length > 0 && (
+        <div className="max-h-40 overflow-y-auto space-y-1 pr-2">
+          {occurrences.map(occurrence => (
+            <div
+              key={`${occurrence.segment.id}:${occurrence.range.start}`}
+              className="flex items-center gap-2 text-xs"
+            >
+              <span className="flex-shrink-0 font-mono text-gray-500">
+                {formatTime(occurrence.segment.start)}
+              </span>
+              <span className="flex-1 truncate text-gray-300">{renderPreview(occurrence)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Bunu değiştir"
+                onClick={() => onReplaceOne(occurrence)}
+                className="h-6 px-1.5"
+              >
+                <Replace className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Scissors, Merge, Minus, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { SegmentEdge, TranscriptionSegment } from '@/lib/types';
+
+interface SegmentEditorProps {
+  segment: TranscriptionSegment;
+  isLast: boolean;
+  onTextChange: (text: string) => void;
+  onSplit: (offset: number, text: string) => void;
+  onMerge: () => void;
+  onNudge: (edge: SegmentEdge, delta: number) => void;
+}
+
+// Step used by the time nudge buttons, in seconds
+const NUDGE_STEP = 0.1;
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${secs}`;
+};
+
+export default function SegmentEditor({
+  segment,
+  isLast,
+  onTextChange,
+  onSplit,
+  onMerge,
+  onNudge
+}: SegmentEditorProps) {
+  const [draft, setDraft] = useState(segment.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Undo, redo and merges replace the text from outside
+  useEffect(() => {
+    setDraft(segment.text);
+  }, [segment.text]);
+
+  // Text is committed on blur so one edit is one undo step
+  const commitDraft = () => {
+    if (draft !== segment.text) {
+      onTextChange(draft);
+    }
+  };
+
+  const handleSplit = () => {
+    const offset = textareaRef.current?.selectionStart ?? 0;
+    onSplit(offset, draft);
+  };
+
+  const renderNudge = (edge: SegmentEdge) => (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={() => onNudge(edge, -NUDGE_STEP)}
+        title={`${edge === 'start' ? 'Başlangıcı' : 'Bitişi'} ${NUDGE_STEP} sn geri al`}
+      >
+        <Minus className="w-3 h-3" />
+      </Button>
+      <span className="text-xs text-gray-300 tabular-nums w-16 text-center">
+        {formatTime(edge === 'start' ? segment.start : segment.end)}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={() => onNudge(edge, NUDGE_STEP)}
+        title={`${edge === 'start' ? 'Başlangıcı' : 'Bitişi'} ${NUDGE_STEP} sn ileri al`}
+      >
+        <Plus className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        rows={2}
+        className="w-full resize-y rounded-md bg-gray-900/60 border border-gray-700 px-3 py-2 text-sm text-gray-200 focus:outline-none focus:border-violet-500"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-3">
+          {renderNudge('start')}
+          <span className="text-xs text-gray-500">→</span>
+          {renderNudge('end')}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-gray-400 hover:text-white"
+            // Keep the textarea focused so its cursor position is still readable
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={handleSplit}
+            title="İmlecin bulunduğu yerden böl"
+          >
+            <Scissors className="w-3 h-3 mr-1" />
+            Böl
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-gray-400 hover:text-white"
+            onClick={onMerge}
+            disabled={isLast}
+            title="Sonraki segmentle birleştir"
+          >
+            <Merge className="w-3 h-3 mr-1" />
+            Birleştir
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { Pencil, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getSpeakerColor } from '@/lib/speakers';
+
+interface SpeakerLegendProps {
+  speakers: string[];
+  onRename?: (from: string, to: string) => void;
+}
+
+export default function SpeakerLegend({ speakers, onRename }: SpeakerLegendProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startRename = (speaker: string) => {
+    setRenaming(speaker);
+    setDraft(speaker);
+  };
+
+  const commitRename = () => {
+    if (renaming && draft.trim() && draft.trim() !== renaming) {
+      onRename?.(renaming, draft.trim());
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      {speakers.map(speaker => {
+        const color = getSpeakerColor(speaker, speakers);
+
+        if (speaker === renaming) {
+          return (
+            <div key={speaker} className="flex items-center gap-1">
+              <Input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+                onBlur={commitRename}
+                className="h-7 w-36 text-xs bg-gray-800/50 border-gray-700"
+              />
+              <Button variant="ghost" size="sm" className="h-7 px-2" onMouseDown={(e) => e.preventDefault()} onClick={commitRename}>
+                <Check className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        }
+
+        return (
+          <span
+            key={speaker}
+            className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${color.background} ${color.text}`}
+          >
+            {speaker}
+            {onRename && (
+              <button
+                type="button"
+                onClick={() => startRename(speaker)}
+                className="opacity-70 hover:opacity-100"
+                title="Konuşmacıyı yeniden adlandır"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -13,19 +13,25 @@ import {
   Hash,
   Timer,
   Cpu,
-  CheckCircle2
+  CheckCircle2,
+  Users,
+  ShieldCheck
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
-import { TranscriptionResponse } from '@/lib/types';
+import { FileInfo, TranscriptionResponse } from '@/lib/types';
+import { getSpeakerColor, getTalkTime, listSpeakers } from '@/lib/speakers';
+import { getQualityReport } from '@/lib/quality';
 
 interface StatsCardProps {
   transcription: TranscriptionResponse;
+  // Probed media duration; the coverage check falls back to the server's duration
+  fileInfo?: FileInfo | null;
 }
 
-export default function StatsCard({ transcription }: StatsCardProps) {
+export default function StatsCard({ transcription, fileInfo }: StatsCardProps) {
   
   const formatDuration = (seconds?: number): string => {
     if (!seconds) return '0:00';
@@ -58,32 +64,10 @@ export default function StatsCard({ transcription }: StatsCardProps) {
     }
   };
 
-  const getQualityScore = (): number => {
-    // Basit bir kalite skoru hesaplaması
-    const segmentCount = transcription.segments?.length || 0;
-    const wordCount = transcription.word_count || 0;
-    const duration = transcription.duration || 1;
-    
-    // Dakika başına kelime sayısı
-    const wordsPerMinute = (wordCount / duration) * 60;
-    
-    // Segment yoğunluğu (daha az segment = daha az kesinti = daha iyi)
-    const segmentDensity = segmentCount / (duration / 60);
-    
-    // Kalite skoru (0-100)
-    let score = 70; // Base score
-    
-    if (wordsPerMinute > 100) score += 10;
-    else if (wordsPerMinute > 80) score += 5;
-    
-    if (segmentDensity < 10) score += 10;
-    else if (segmentDensity < 15) score += 5;
-    
-    return Math.min(100, Math.max(0, score));
-  };
-
   const speedRatio = getSpeedRatio();
-  const qualityScore = getQualityScore();
+  const qualityReport = getQualityReport(transcription.segments, fileInfo?.duration ?? transcription.duration);
+  const speakers = listSpeakers(transcription.segments);
+  const talkTime = getTalkTime(transcription.segments);
 
   const stats = [
     {
@@ -129,14 +113,14 @@ export default function StatsCard({ transcription }: StatsCardProps) {
       unit: 'x',
       icon: <Zap className="w-4 h-4" />
     },
-    {
-      label: 'Kalite Skoru',
-      value: qualityScore,
+    ...(qualityReport.score !== undefined ? [{
+      label: `Kalite Skoru (${qualityReport.grade})`,
+      value: qualityReport.score,
       max: 100,
       color: 'bg-gradient-to-r from-blue-500 to-purple-500',
-      unit: '%',
+      unit: '',
       icon: <Target className="w-4 h-4" />
-    }
+    }] : [])
   ];
 
   const processingInfo = [
@@ -261,6 +245,83 @@ export default function StatsCard({ transcription }: StatsCardProps) {
 
           <Separator className="bg-gray-700" />
 
+          {/* Quality Report */}
+          <div>
+            <h3 className="text-sm font-medium text-white mb-1 flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4 text-blue-400" />
+              Kalite Raporu
+            </h3>
+            <p className="text-xs text-gray-500 mb-4">
+              {qualityReport.score !== undefined
+                ? 'Modelin ne kadar emin olduğunu ölçer; gerçek hata oranını yalnızca referans metinle karşılaştırma verir.'
+                : 'Sunucu segment olasılıklarını göndermediği için kalite hesaplanamadı.'}
+            </p>
+            <div className="space-y-3">
+              {qualityReport.factors.map(factor => (
+                <div key={factor.id} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-300">{factor.label}</span>
+                    <span className={factor.penalty > 0 ? 'text-red-400' : 'text-green-400'}>
+                      {factor.penalty > 0 ? `-${factor.penalty}` : '0'}
+                      <span className="text-xs text-gray-500"> / {factor.maxPenalty}</span>
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-gray-800">
+                    <div
+                      className="h-1.5 rounded-full bg-red-500/70"
+                      style={{ width: `${(factor.penalty / factor.maxPenalty) * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">{factor.detail}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {talkTime.length > 0 && (
+            <>
+              <Separator className="bg-gray-700" />
+
+              {/* Talk Time */}
+              <div>
+                <h3 className="text-sm font-medium text-white mb-4 flex items-center gap-2">
+                  <Users className="w-4 h-4 text-sky-400" />
+                  Konuşma Süreleri
+                </h3>
+                <div className="space-y-3">
+                  {talkTime.map((entry, index) => {
+                    const color = getSpeakerColor(entry.speaker, speakers);
+                    return (
+                      <motion.div
+                        key={entry.speaker}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: index * 0.1 + 0.5 }}
+                        className="space-y-1"
+                      >
+                        <div className="flex items-center justify-between text-sm">
+                          <span className={color.text}>{entry.speaker}</span>
+                          <span className="text-gray-300">
+                            {formatDuration(entry.seconds)} • %{entry.share.toFixed(0)}
+                            <span className="text-xs text-gray-500 ml-2">{entry.segmentCount} segment</span>
+                          </span>
+                        </div>
+                        <div className="h-2 rounded-full bg-gray-800">
+                          <div
+                            className={`h-2 rounded-full ${color.bar}`}
+                            style={{ width: `${entry.share}%` }}
+                          />
+                        </div>
+                      </motion.div>
+                    );
+                  })}
+                </div>
+              </div>
+            </>
+          )}
+
+          <Separator className="bg-gray-700" />
+
           {/* Processing Info */}
           <div>
             <h3 className="text-sm font-medium text-white mb-4 flex items-center gap-2">
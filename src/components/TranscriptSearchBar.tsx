@@ -0,0 +1,114 @@
+'use client';
+
+import { KeyboardEvent } from 'react';
+import { ChevronDown, ChevronUp, Replace, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SearchOptions } from '@/lib/types';
+
+interface TranscriptSearchBarProps {
+  query: string;
+  options: SearchOptions;
+  matchCount: number;
+  currentMatch: number;
+  error?: string;
+  onQueryChange: (query: string) => void;
+  onOptionChange: (field: keyof SearchOptions, value: boolean) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  replaceOpen?: boolean;
+  onToggleReplace?: () => void;
+}
+
+const OPTION_TOGGLES: { field: keyof SearchOptions; label: string; title: string }[] = [
+  { field: 'ignoreDiacritics', label: 'ş=s', title: 'Türkçe karakterleri yok say (ş/s, ğ/g, ç/c, ö/o, ü/u, ı/i)' },
+  { field: 'wholeWord', label: 'Kelime', title: 'Yalnızca tam kelimeleri bul' },
+  { field: 'regex', label: '.*', title: 'Düzenli ifade (küçük harfle yazın)' },
+];
+
+export default function TranscriptSearchBar({
+  query,
+  options,
+  matchCount,
+  currentMatch,
+  error,
+  onQueryChange,
+  onOptionChange,
+  onNext,
+  onPrevious,
+  replaceOpen = false,
+  onToggleReplace
+}: TranscriptSearchBarProps) {
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (e.shiftKey) onPrevious();
+    else onNext();
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            placeholder="Metinde ara..."
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className={`pl-10 pr-16 bg-gray-800/50 ${error ? 'border-red-500' : 'border-gray-700'}`}
+          />
+          {query && !error && (
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-400">
+              {matchCount > 0 ? `${currentMatch + 1}/${matchCount}` : '0/0'}
+            </span>
+          )}
+        </div>
+        {OPTION_TOGGLES.map(toggle => (
+          <Button
+            key={toggle.field}
+            variant={options[toggle.field] ? 'default' : 'ghost'}
+            size="sm"
+            title={toggle.title}
+            onClick={() => onOptionChange(toggle.field, !options[toggle.field])}
+            className="h-9 px-2 text-xs font-mono"
+          >
+            {toggle.label}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Önceki (Shift+Enter)"
+          onClick={onPrevious}
+          disabled={matchCount === 0}
+          className="h-9 px-2"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Sonraki (Enter)"
+          onClick={onNext}
+          disabled={matchCount === 0}
+          className="h-9 px-2"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+        {onToggleReplace && (
+          <Button
+            variant={replaceOpen ? 'default' : 'ghost'}
+            size="sm"
+            title="Bul ve değiştir"
+            onClick={onToggleReplace}
+            className="h-9 px-2"
+          >
+            <Replace className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ListOrdered,
+  Pause,
+  Play,
+  X,
+  RotateCcw,
+  ArrowUp,
+  ArrowDown,
+  Eye,
+  Trash2,
+  Loader2,
+  CheckCircle2,
+  AlertCircle,
+  Clock
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getItemProgress } from '@/hooks/useTranscriptionQueue';
+import { QueueItem, QueueItemStatus } from '@/lib/types';
+
+interface TranscriptionQueueCardProps {
+  items: QueueItem[];
+  aggregate: {
+    total: number;
+    completed: number;
+    failed: number;
+    active: number;
+    progress: number;
+  };
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onRemove: (id: string) => void;
+  onClearFinished: () => void;
+  onOpenResult: (item: QueueItem) => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: 'Sırada',
+  uploading: 'Yükleniyor',
+  transcribing: 'İşleniyor',
+  paused: 'Duraklatıldı',
+  completed: 'Tamamlandı',
+  failed: 'Başarısız',
+  cancelled: 'İptal edildi',
+};
+
+export default function TranscriptionQueueCard({
+  items,
+  aggregate,
+  concurrency,
+  onConcurrencyChange,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onMove,
+  onRemove,
+  onClearFinished,
+  onOpenResult
+}: TranscriptionQueueCardProps) {
+
+  const getStatusColor = (status: QueueItemStatus) => {
+    switch (status) {
+      case 'completed': return 'text-green-400 border-green-500/50';
+      case 'uploading':
+      case 'transcribing': return 'text-blue-400 border-blue-500/50';
+      case 'paused': return 'text-yellow-400 border-yellow-500/50';
+      case 'failed': return 'text-red-400 border-red-500/50';
+      default: return 'text-gray-400 border-gray-500/50';
+    }
+  };
+
+  const getStatusIcon = (status: QueueItemStatus) => {
+    switch (status) {
+      case 'completed': return <CheckCircle2 className="w-3 h-3" />;
+      case 'uploading':
+      case 'transcribing': return <Loader2 className="w-3 h-3 animate-spin" />;
+      case 'paused': return <Pause className="w-3 h-3" />;
+      case 'failed': return <AlertCircle className="w-3 h-3" />;
+      default: return <Clock className="w-3 h-3" />;
+    }
+  };
+
+  return (
+    <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListOrdered className="w-5 h-5 text-cyan-500" />
+              İşlem Kuyruğu
+            </CardTitle>
+            <CardDescription>
+              {aggregate.completed}/{aggregate.total} tamamlandı
+              {aggregate.failed > 0 && ` • ${aggregate.failed} başarısız`}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-400">Eşzamanlı</span>
+            <Select
+              value={concurrency.toString()}
+              onValueChange={(value) => onConcurrencyChange(Number(value))}
+            >
+              <SelectTrigger className="w-16 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONCURRENCY_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option.toString()}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClearFinished}
+              className="text-slate-400 hover:text-white"
+              title="Bitenleri temizle"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Aggregate Progress */}
+        <div className="space-y-2 pt-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-400">Toplam ilerleme</span>
+            <span className="text-cyan-400">{Math.round(aggregate.progress)}%</span>
+          </div>
+          <Progress value={aggregate.progress} className="h-2" />
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        <ScrollArea className="max-h-80">
+          <div className="space-y-2">
+            <AnimatePresence initial={false}>
+              {items.map((item, index) => {
+                const progress = getItemProgress(item);
+                const canPause = item.status === 'queued' || item.status === 'uploading';
+                const canCancel = ['queued', 'uploading', 'transcribing', 'paused'].includes(item.status);
+                const canRetry = item.status === 'failed' || item.status === 'cancelled';
+
+                return (
+                  <motion.div
+                    key={item.id}
+                    layout
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="bg-gray-800/30 rounded-lg p-3 border border-gray-700"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-white truncate">{item.file.name}</p>
+                        {item.error && item.status === 'failed' && (
+                          <p className="text-xs text-red-400 truncate">{item.error}</p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className={`text-xs ${getStatusColor(item.status)}`}>
+                        {getStatusIcon(item.status)}
+                        {STATUS_LABELS[item.status]}
+                      </Badge>
+                    </div>
+
+                    <div className="flex items-center gap-2 mt-2">
+                      <Progress value={progress} className="h-1 flex-1" />
+                      <span className="text-xs text-slate-400 w-10 text-right">{Math.round(progress)}%</span>
+                    </div>
+
+                    <div className="flex items-center justify-end gap-1 mt-2">
+                      <Button variant="ghost" size="sm" className="h-7 px-2" disabled={index === 0} onClick={() => onMove(item.id, -1)} title="Yukarı taşı">
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 px-2" disabled={index === items.length - 1} onClick={() => onMove(item.id, 1)} title="Aşağı taşı">
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                      {item.status === 'paused' ? (
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onResume(item.id)} title="Devam et">
+                          <Play className="w-3 h-3" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="sm" className="h-7 px-2" disabled={!canPause} onClick={() => onPause(item.id)} title="Duraklat">
+                          <Pause className="w-3 h-3" />
+                        </Button>
+                      )}
+                      {canRetry && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onRetry(item.id)} title="Tekrar dene">
+                          <RotateCcw className="w-3 h-3" />
+                        </Button>
+                      )}
+                      {item.status === 'completed' && (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-green-400" onClick={() => onOpenResult(item)} title="Sonucu görüntüle">
+                          <Eye className="w-3 h-3" />
+                        </Button>
+                      )}
+                      {canCancel ? (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-red-400" onClick={() => onCancel(item.id)} title="İptal et">
+                          <X className="w-3 h-3" />
+                        </Button>
+                      ) : (
+                        <Button variant="ghost" size="sm" className="h-7 px-2 text-slate-400" onClick={() => onRemove(item.id)} title="Kuyruktan kaldır">
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
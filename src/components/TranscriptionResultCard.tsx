@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   FileText, 
@@ -11,12 +11,20 @@ import {
   AlertCircle, 
   Clock, 
   FileDown,
-  ScrollText,
   Eye,
   EyeOff,
-  Search,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Wifi,
+  WifiOff,
+  Pencil,
+  Undo2,
+  Redo2,
+  BookOpen,
+  X,
+  Gauge,
+  AlertTriangle,
+  SkipForward
 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -24,18 +32,58 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Input } from '@/components/ui/input';
-import { TranscriptionState } from '@/lib/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import MediaPlayer from '@/components/MediaPlayer';
+import SegmentEditor from '@/components/SegmentEditor';
+import SpeakerLegend from '@/components/SpeakerLegend';
+import TranscriptSearchBar from '@/components/TranscriptSearchBar';
+import ReplacePanel from '@/components/ReplacePanel';
+import ConfidenceHeatmap from '@/components/ConfidenceHeatmap';
+import { TranscriptEditor } from '@/hooks/useTranscriptEditor';
+import {
+  DownloadFormat,
+  ExportOptions,
+  ExportPreference,
+  GlossarySuggestion,
+  ReplaceOccurrence,
+  SearchOptions,
+  SubtitleProfileId,
+  TextRange,
+  TranscriptionSegment,
+  TranscriptionState
+} from '@/lib/types';
+import { ConnectionState } from '@/lib/socket';
+import { EXPORT_FORMATS, SUBTITLE_FORMATS } from '@/lib/export';
+import { SUBTITLE_PROFILES } from '@/lib/subtitles';
+import { getSpeakerColor, listSpeakers } from '@/lib/speakers';
+import { applySuggestions, findGlossarySuggestions } from '@/lib/glossary';
+import { CONFIDENCE_COLORS, HALLUCINATION_LABELS, analyzeConfidence, isSuspicious } from '@/lib/confidence';
+import { DEFAULT_SEARCH_OPTIONS, compileSearch, findMatches, replaceRanges } from '@/lib/search';
+
+// Warn when no new progress has arrived for this long
+const STALL_WARNING_SECONDS = 90;
+
+const suggestionKey = (suggestion: GlossarySuggestion) => `${suggestion.original}\u0000${suggestion.replacement}`;
 
 interface TranscriptionResultCardProps {
   transcriptionState: TranscriptionState;
-  onDownload: (format: string) => void;
+  connectionState?: ConnectionState;
+  mediaFile?: File | null;
+  editor?: TranscriptEditor;
+  defaultExport?: ExportPreference;
+  glossaryTerms?: string[];
+  onDownload: (format: DownloadFormat, options?: ExportOptions) => void;
   onCopy: () => void;
   onReset: () => void;
 }
 
 export default function TranscriptionResultCard({ 
   transcriptionState, 
+  connectionState = 'closed',
+  mediaFile,
+  editor,
+  defaultExport,
+  glossaryTerms,
   onDownload, 
   onCopy, 
   onReset 
@@ -43,10 +91,43 @@ export default function TranscriptionResultCard({
   const [copied, setCopied] = useState(false);
   const [activeTab, setActiveTab] = useState('text');
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const currentMatchRef = useRef<HTMLElement | null>(null);
+  const [replaceOpen, setReplaceOpen] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const [keepCase, setKeepCase] = useState(true);
+  const [showConfidence, setShowConfidence] = useState(true);
+  const [suspiciousOnly, setSuspiciousOnly] = useState(false);
+  const [focusedSegmentId, setFocusedSegmentId] = useState<number | null>(null);
   const [showTimestamps, setShowTimestamps] = useState(false);
   const [expandedSegments, setExpandedSegments] = useState<Set<number>>(new Set());
+  const [isEditing, setIsEditing] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<DownloadFormat>('srt');
+  const [subtitleProfile, setSubtitleProfile] = useState<SubtitleProfileId | 'original'>('netflix');
+  // Rejected "original → replacement" pairs are not suggested again for this result
+  const [rejectedSuggestions, setRejectedSuggestions] = useState<Set<string>>(new Set());
+
+  // A selected preset decides the initial export; the user can still change it here
+  useEffect(() => {
+    if (!defaultExport) return;
+    setDownloadFormat(defaultExport.format);
+    setSubtitleProfile(defaultExport.subtitleProfile ?? 'original');
+  }, [defaultExport]);
 
-  const { status, progress, result, error, stage, message } = transcriptionState;
+  const [now, setNow] = useState(() => Date.now());
+  const [currentTime, setCurrentTime] = useState(0);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const segmentRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+
+  const { status, progress, result, error, stage, message, eta, realTimeFactor, lastProgressAt } = transcriptionState;
+
+  // Tick while processing so the ETA and "no progress since" hints stay current
+  useEffect(() => {
+    if (status !== 'processing') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status]);
 
   useEffect(() => {
     if (copied) {
@@ -72,25 +153,241 @@ export default function TranscriptionResultCard({
     return `${minutes}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
   };
 
-  const highlightSearchTerm = (text: string) => {
-    if (!searchTerm) return text;
-    
-    const regex = new RegExp(`(${searchTerm})`, 'gi');
-    const parts = text.split(regex);
-    
-    return parts.map((part, index) => 
-      regex.test(part) ? (
-        <mark key={index} className="bg-yellow-500/30 text-yellow-300 rounded px-1">
-          {part}
+  const formatEta = (seconds: number): string => {
+    const rounded = Math.max(0, Math.round(seconds));
+    const hours = Math.floor(rounded / 3600);
+    const minutes = Math.floor((rounded % 3600) / 60);
+    const secs = rounded % 60;
+
+    if (hours > 0) return `${hours} sa ${minutes} dk`;
+    if (minutes > 0) return `${minutes} dk ${secs} sn`;
+    return `${secs} sn`;
+  };
+
+  const secondsSinceProgress = lastProgressAt ? Math.max(0, (now - lastProgressAt) / 1000) : 0;
+  const isStalled = secondsSinceProgress > STALL_WARNING_SECONDS;
+
+  // Edited segments take over from the server's once an editor is attached
+  const segments = editor ? editor.segments : result?.segments;
+  const fullText = editor?.editedResult?.text ?? result?.text;
+  const speakers = listSpeakers(segments);
+
+  const { matcher, error: searchError } = useMemo(
+    () => compileSearch(searchTerm, searchOptions),
+    [searchTerm, searchOptions]
+  );
+  const textMatches = useMemo(() => findMatches(fullText ?? '', matcher), [fullText, matcher]);
+
+  // Matches per segment, plus the index of each segment's first match for navigation
+  const segmentMatches = useMemo(() => {
+    const bySegment = new Map<number, { ranges: TextRange[]; firstIndex: number }>();
+    let count = 0;
+    for (const segment of segments ?? []) {
+      const ranges = findMatches(segment.text, matcher);
+      if (ranges.length === 0) continue;
+      bySegment.set(segment.id, { ranges, firstIndex: count });
+      count += ranges.length;
+    }
+    return { bySegment, count };
+  }, [segments, matcher]);
+
+  const occurrences: ReplaceOccurrence[] = (segments ?? []).flatMap(segment =>
+    (segmentMatches.bySegment.get(segment.id)?.ranges ?? []).map(range => ({ segment, range }))
+  );
+
+  // Replacements edit segment text through the editor, so timings survive and undo works
+  const replaceOne = ({ segment, range }: ReplaceOccurrence) => {
+    editor?.updateText(segment.id, replaceRanges(segment.text, [range], replacement, keepCase));
+  };
+
+  const replaceAll = () => {
+    if (!editor) return;
+    const texts = new Map<number, string>();
+    for (const segment of editor.segments) {
+      const ranges = segmentMatches.bySegment.get(segment.id)?.ranges;
+      if (ranges) texts.set(segment.id, replaceRanges(segment.text, ranges, replacement, keepCase));
+    }
+    editor.updateTexts(texts);
+  };
+
+  const matchCount = activeTab === 'text' ? textMatches.length : segmentMatches.count;
+
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [matcher, activeTab]);
+
+  useEffect(() => {
+    currentMatchRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [currentMatch, matcher, activeTab]);
+
+  const stepMatch = (delta: number) => {
+    if (matchCount === 0) return;
+    setCurrentMatch(prev => (prev + delta + matchCount) % matchCount);
+  };
+
+  // firstIndex numbers the ranges across the whole tab so the current match can be marked
+  const highlightMatches = (text: string, ranges: TextRange[] = [], firstIndex = 0) => {
+    if (ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    ranges.forEach((range, index) => {
+      const isCurrent = firstIndex + index === currentMatch;
+      parts.push(text.slice(cursor, range.start));
+      parts.push(
+        <mark
+          key={range.start}
+          ref={isCurrent ? (element) => { currentMatchRef.current = element; } : undefined}
+          className={`rounded px-0.5 ${
+            isCurrent ? 'bg-orange-500/60 text-white ring-1 ring-orange-400' : 'bg-yellow-500/30 text-yellow-300'
+          }`}
+        >
+          {text.slice(range.start, range.end)}
         </mark>
-      ) : part
-    );
+      );
+      cursor = range.end;
+    });
+    parts.push(text.slice(cursor));
+    return parts;
   };
 
-  const filteredSegments = result?.segments?.filter(segment =>
-    !searchTerm || segment.text.toLowerCase().includes(searchTerm.toLowerCase())
+  const confidence = useMemo(() => analyzeConfidence(segments ?? []), [segments]);
+  const hasConfidence = Array.from(confidence.values()).some(entry => entry.level !== 'unknown' || entry.flags.length > 0);
+  const suspiciousSegments = (segments ?? []).filter(segment => isSuspicious(confidence.get(segment.id)));
+
+  const filteredSegments = segments?.filter(segment =>
+    (!matcher || segmentMatches.bySegment.has(segment.id)) &&
+    (!suspiciousOnly || isSuspicious(confidence.get(segment.id)))
   ) || [];
 
+  useEffect(() => {
+    setRejectedSuggestions(new Set());
+  }, [result]);
+
+  // Corrections go through the editor so they can be undone
+  const editorSegments = editor?.segments;
+  const suggestions = useMemo(
+    () => editorSegments && glossaryTerms?.length
+      ? findGlossarySuggestions(editorSegments, glossaryTerms)
+        .filter(suggestion => !rejectedSuggestions.has(suggestionKey(suggestion)))
+      : [],
+    [editorSegments, glossaryTerms, rejectedSuggestions]
+  );
+
+  const acceptSuggestions = (accepted: GlossarySuggestion[]) => {
+    if (editor) editor.updateTexts(applySuggestions(editor.segments, accepted));
+  };
+
+  const rejectSuggestion = (suggestion: GlossarySuggestion) => {
+    setRejectedSuggestions(prev => new Set(prev).add(suggestionKey(suggestion)));
+  };
+
+  // Near-miss spellings are underlined with inline accept/reject buttons
+  const renderSuggestions = (segment: TranscriptionSegment, segmentSuggestions: GlossarySuggestion[]) => {
+    let cursor = 0;
+    const parts: React.ReactNode[] = [];
+    for (const suggestion of segmentSuggestions) {
+      parts.push(segment.text.slice(cursor, suggestion.start));
+      parts.push(
+        <span key={suggestion.id} className="inline-flex items-center gap-0.5">
+          <span
+            className="underline decoration-wavy decoration-emerald-400 underline-offset-4"
+            title={`Sözlük önerisi: ${suggestion.replacement}`}
+          >
+            {suggestion.original}
+          </span>
+          <button
+            type="button"
+            title={`"${suggestion.replacement}" ile değiştir`}
+            onClick={(e) => {
+              e.stopPropagation();
+              acceptSuggestions([suggestion]);
+            }}
+            className="rounded px-1 text-xs text-emerald-300 bg-emerald-500/10 hover:bg-emerald-500/30"
+          >
+            {suggestion.replacement}
+          </button>
+          <button
+            type="button"
+            title="Öneriyi reddet"
+            onClick={(e) => {
+              e.stopPropagation();
+              rejectSuggestion(suggestion);
+            }}
+            className="rounded text-gray-500 hover:text-red-400"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      );
+      cursor = suggestion.end;
+    }
+    parts.push(segment.text.slice(cursor));
+    return parts;
+  };
+
+  const activeSegment = mediaFile
+    ? segments?.find(segment => currentTime >= segment.start && currentTime < segment.end)
+    : undefined;
+  const activeSegmentId = activeSegment?.id;
+
+  // Keep the segment being played in view, but only while playback runs
+  useEffect(() => {
+    if (activeSegmentId === undefined || mediaRef.current?.paused) return;
+    segmentRefs.current.get(activeSegmentId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSegmentId]);
+
+  const seekTo = (start: number) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = start;
+    setCurrentTime(start);
+    media.play().catch(() => {
+      // Autoplay may be blocked; the seek still applies
+    });
+  };
+
+  // Karaoke-style view of the playing segment; words can be clicked to seek
+  const renderKaraoke = (segment: TranscriptionSegment) => (
+    segment.words!.map((word, index) => {
+      const isCurrent = currentTime >= word.start && currentTime < word.end;
+      const isPlayed = currentTime >= word.end;
+      return (
+        <span key={index}>
+          {index > 0 && ' '}
+          <span
+            onClick={(e) => {
+              e.stopPropagation();
+              seekTo(word.start);
+            }}
+            className={`rounded px-0.5 transition-colors ${
+              isCurrent
+                ? 'bg-violet-500/40 text-white'
+                : isPlayed ? 'text-violet-200' : 'text-gray-400'
+            }`}
+          >
+            {word.word.trim()}
+          </span>
+        </span>
+      );
+    })
+  );
+
+  const focusSegment = (segment: TranscriptionSegment) => {
+    setFocusedSegmentId(segment.id);
+    segmentRefs.current.get(segment.id)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    if (mediaFile) seekTo(segment.start);
+  };
+
+  // Continues after the segment last jumped to, or after the one playing, and wraps around
+  const jumpToNextSuspicious = () => {
+    if (suspiciousSegments.length === 0) return;
+    const from = focusedSegmentId ?? activeSegmentId ?? -1;
+    const fromStart = segments?.find(segment => segment.id === from)?.start ?? -Infinity;
+    const next = suspiciousSegments.find(segment => segment.start > fromStart) ?? suspiciousSegments[0];
+    focusSegment(next);
+  };
+
   const toggleSegmentExpansion = (segmentId: number) => {
     const newExpanded = new Set(expandedSegments);
     if (newExpanded.has(segmentId)) {
@@ -119,11 +416,22 @@ export default function TranscriptionResultCard({
     }
   };
 
-  const downloadFormats = [
-    { id: 'txt', label: 'Metin (.txt)', icon: <FileText className="w-4 h-4" /> },
-    { id: 'srt', label: 'Altyazı (.srt)', icon: <ScrollText className="w-4 h-4" /> },
-    { id: 'json', label: 'JSON (.json)', icon: <FileDown className="w-4 h-4" /> },
-  ];
+  const getConnectionBadge = () => {
+    switch (connectionState) {
+      case 'open':
+        return { label: 'Canlı', className: 'text-green-400 border-green-500/50', icon: <Wifi className="w-3 h-3" /> };
+      case 'connecting':
+        return { label: 'Bağlanıyor', className: 'text-blue-400 border-blue-500/50', icon: <Wifi className="w-3 h-3" /> };
+      case 'reconnecting':
+        return { label: 'Yeniden bağlanıyor', className: 'text-yellow-400 border-yellow-500/50', icon: <WifiOff className="w-3 h-3" /> };
+      default:
+        return { label: 'Periyodik sorgu', className: 'text-gray-400 border-gray-500/50', icon: <WifiOff className="w-3 h-3" /> };
+    }
+  };
+
+  const connectionBadge = getConnectionBadge();
+
+  const downloadFormats = Object.entries(EXPORT_FORMATS) as [DownloadFormat, { label: string }][];
 
   return (
     <Card className="border-slate-800/50 bg-slate-900/30 backdrop-blur-sm h-[600px] flex flex-col">
@@ -172,9 +480,32 @@ export default function TranscriptionResultCard({
               <span className="text-slate-400">
                 {stage || 'İşleniyor'}
               </span>
-              <span className="text-blue-400">{Math.round(progress)}%</span>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={`text-xs ${connectionBadge.className}`}>
+                  {connectionBadge.icon}
+                  {connectionBadge.label}
+                </Badge>
+                <span className="text-blue-400">{Math.round(progress)}%</span>
+              </div>
             </div>
             <Progress value={progress} className="h-2" />
+            <div className="flex justify-between text-xs text-slate-500">
+              <span>
+                {eta !== undefined
+                  ? `Tahmini kalan süre: ~${formatEta(eta)}`
+                  : 'Kalan süre hesaplanıyor...'}
+              </span>
+              {realTimeFactor !== undefined && (
+                <span title="Ses saniyesi başına harcanan işlem süresi">
+                  {realTimeFactor.toFixed(2)}x gerçek zaman
+                </span>
+              )}
+            </div>
+            {isStalled && (
+              <p className="text-xs text-yellow-400 mt-1">
+                {formatEta(secondsSinceProgress)} boyunca ilerleme bildirilmedi; sunucu hâlâ çalışıyor olabilir.
+              </p>
+            )}
             {message && (
               <p className="text-xs text-slate-500 mt-1">{message}</p>
             )}
@@ -276,18 +607,50 @@ export default function TranscriptionResultCard({
                   </Button>
                   
                   <div className="flex items-center gap-1">
-                    {downloadFormats.map((format) => (
-                      <Button
-                        key={format.id}
-                        variant="outline"
-                        size="sm"
-                        onClick={() => onDownload(format.id)}
-                        className="text-blue-400 hover:text-blue-300"
+                    <Select
+                      value={downloadFormat}
+                      onValueChange={(value) => setDownloadFormat(value as DownloadFormat)}
+                    >
+                      <SelectTrigger className="w-48 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {downloadFormats.map(([id, format]) => (
+                          <SelectItem key={id} value={id}>
+                            {format.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {SUBTITLE_FORMATS.includes(downloadFormat) && (
+                      <Select
+                        value={subtitleProfile}
+                        onValueChange={(value) => setSubtitleProfile(value as SubtitleProfileId | 'original')}
                       >
-                        {format.icon}
-                        <span className="ml-2 hidden sm:inline">{format.label.split(' ')[0]}</span>
-                      </Button>
-                    ))}
+                        <SelectTrigger className="w-40 h-8" title="Altyazı profili">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="original">Orijinal segmentler</SelectItem>
+                          {Object.values(SUBTITLE_PROFILES).map(profile => (
+                            <SelectItem key={profile.id} value={profile.id}>
+                              {profile.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onDownload(downloadFormat, {
+                        subtitleProfile: subtitleProfile === 'original' ? undefined : subtitleProfile,
+                      })}
+                      className="text-blue-400 hover:text-blue-300"
+                    >
+                      <FileDown className="w-4 h-4" />
+                      <span className="ml-2 hidden sm:inline">İndir</span>
+                    </Button>
                   </div>
                 </div>
 
@@ -303,17 +666,45 @@ export default function TranscriptionResultCard({
                 </div>
               </div>
 
+              {/* Media Player */}
+              {mediaFile && (
+                <MediaPlayer
+                  file={mediaFile}
+                  mediaRef={mediaRef}
+                  activeSegment={activeSegment}
+                  onTimeUpdate={setCurrentTime}
+                />
+              )}
+
               {/* Search */}
               {result.segments && (
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
-                  <Input
-                    placeholder="Metinde ara..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10 bg-gray-800/50 border-gray-700"
-                  />
-                </div>
+                <TranscriptSearchBar
+                  query={searchTerm}
+                  options={searchOptions}
+                  matchCount={matchCount}
+                  currentMatch={currentMatch}
+                  error={searchError}
+                  onQueryChange={setSearchTerm}
+                  onOptionChange={(field, value) => setSearchOptions(prev => ({ ...prev, [field]: value }))}
+                  onNext={() => stepMatch(1)}
+                  onPrevious={() => stepMatch(-1)}
+                  replaceOpen={replaceOpen}
+                  onToggleReplace={editor ? () => setReplaceOpen(!replaceOpen) : undefined}
+                />
+              )}
+
+              {/* Find and Replace */}
+              {replaceOpen && editor && (
+                <ReplacePanel
+                  occurrences={occurrences}
+                  replacement={replacement}
+                  keepCase={keepCase}
+                  onReplacementChange={setReplacement}
+                  onKeepCaseChange={setKeepCase}
+                  onReplaceOne={replaceOne}
+                  onReplaceAll={replaceAll}
+                  formatTime={formatDuration}
+                />
               )}
 
               {/* Content Tabs */}
@@ -326,72 +717,263 @@ export default function TranscriptionResultCard({
                 <TabsContent value="text" className="flex-1 mt-4">
                   <ScrollArea className="h-full bg-gray-800/30 rounded-lg p-4 border border-gray-700">
                     <div className="whitespace-pre-wrap text-gray-200 leading-relaxed">
-                      {highlightSearchTerm(result.text || '')}
+                      {highlightMatches(fullText || '', textMatches)}
                     </div>
                   </ScrollArea>
                 </TabsContent>
                 
-                <TabsContent value="segments" className="flex-1 mt-4">
-                  <ScrollArea className="h-full space-y-2">
+                <TabsContent value="segments" className="flex-1 mt-4 flex flex-col min-h-0">
+                  {/* Editing Toolbar */}
+                  {editor && (
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant={isEditing ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setIsEditing(!isEditing)}
+                        >
+                          <Pencil className="w-4 h-4 mr-2" />
+                          {isEditing ? 'Düzenlemeyi bitir' : 'Düzenle'}
+                        </Button>
+                        {editor.isDirty && (
+                          <Badge variant="outline" className="text-xs text-yellow-400 border-yellow-500/50">
+                            Düzenlendi
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={editor.undo}
+                          disabled={!editor.canUndo}
+                          title="Geri al"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={editor.redo}
+                          disabled={!editor.canRedo}
+                          title="Yinele"
+                        >
+                          <Redo2 className="w-4 h-4" />
+                        </Button>
+                        {editor.isDirty && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={editor.discard}
+                            className="text-red-400 hover:text-red-300"
+                            title="Tüm düzenlemeleri geri al"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Glossary Suggestions */}
+                  {suggestions.length > 0 && !isEditing && (
+                    <div className="flex items-center justify-between gap-2 mb-2 rounded-lg border border-emerald-500/30 bg-emerald-500/5 px-3 py-1.5">
+                      <span className="flex items-center gap-2 text-xs text-emerald-300">
+                        <BookOpen className="w-4 h-4" />
+                        {suggestions.length} sözlük önerisi
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs text-emerald-300 hover:text-emerald-200"
+                          onClick={() => acceptSuggestions(suggestions)}
+                        >
+                          <Check className="w-3 h-3 mr-1" />
+                          Tümünü kabul et
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs text-gray-400 hover:text-white"
+                          onClick={() => setRejectedSuggestions(prev => new Set([...prev, ...suggestions.map(suggestionKey)]))}
+                        >
+                          Tümünü reddet
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Confidence */}
+                  {hasConfidence && !isEditing && (
+                    <>
+                      <div className="flex items-center gap-1 mb-2">
+                        <Button
+                          variant={showConfidence ? 'default' : 'ghost'}
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setShowConfidence(!showConfidence)}
+                          title="Segmentleri güven skoruna göre renklendir"
+                        >
+                          <Gauge className="w-3 h-3 mr-1" />
+                          Güven haritası
+                        </Button>
+                        <Button
+                          variant={suspiciousOnly ? 'default' : 'ghost'}
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setSuspiciousOnly(!suspiciousOnly)}
+                          title="Yalnızca düşük güvenli veya işaretli segmentleri göster"
+                        >
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Şüpheli ({suspiciousSegments.length})
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={jumpToNextSuspicious}
+                          disabled={suspiciousSegments.length === 0}
+                          title="Sonraki şüpheli segmente git"
+                        >
+                          <SkipForward className="w-3 h-3 mr-1" />
+                          Sonraki
+                        </Button>
+                      </div>
+                      {showConfidence && segments && (
+                        <ConfidenceHeatmap
+                          segments={segments}
+                          confidence={confidence}
+                          activeSegmentId={activeSegmentId}
+                          onSelect={focusSegment}
+                        />
+                      )}
+                    </>
+                  )}
+
+                  {/* Speakers */}
+                  {speakers.length > 0 && (
+                    <SpeakerLegend speakers={speakers} onRename={editor?.renameSpeaker} />
+                  )}
+
+                  <ScrollArea className="flex-1 min-h-0 space-y-2">
                     {filteredSegments.length === 0 ? (
                       <div className="text-center py-8 text-gray-400">
-                        {searchTerm ? 'Arama kriterine uygun sonuç bulunamadı' : 'Segment bulunamadı'}
+                        {matcher ? 'Arama kriterine uygun sonuç bulunamadı' : 'Segment bulunamadı'}
                       </div>
                     ) : (
-                      filteredSegments.map((segment) => (
-                        <motion.div
-                          key={segment.id}
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          transition={{ delay: segment.id * 0.05 }}
-                          className="bg-gray-800/30 rounded-lg p-3 border border-gray-700 hover:border-gray-600 transition-colors"
-                        >
-                          <div className="flex items-start gap-3">
-                            {showTimestamps && (
-                              <div className="flex-shrink-0">
-                                <Badge variant="outline" className="text-xs">
-                                  {formatDuration(segment.start)}
-                                </Badge>
+                      filteredSegments.map((segment) => {
+                        const segmentConfidence = confidence.get(segment.id);
+                        return (
+                          <motion.div
+                            key={segment.id}
+                            // Splits and merges renumber rows; skip the entrance animation while editing
+                            initial={isEditing ? false : { opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            transition={{ delay: isEditing ? 0 : segment.id * 0.05 }}
+                            ref={(element: HTMLDivElement | null) => {
+                              if (element) segmentRefs.current.set(segment.id, element);
+                              else segmentRefs.current.delete(segment.id);
+                            }}
+                            onClick={mediaFile ? () => seekTo(segment.start) : undefined}
+                            className={`rounded-lg p-3 border transition-colors ${
+                              segment.id === activeSegmentId
+                                ? 'bg-violet-500/10 border-violet-500/60'
+                                : `${showConfidence && CONFIDENCE_COLORS[segmentConfidence?.level ?? 'unknown'].tint || 'bg-gray-800/30'} border-gray-700 hover:border-gray-600`
+                            } ${segment.id === focusedSegmentId ? 'ring-1 ring-orange-400' : ''} ${segment.speaker ? `border-l-4 ${getSpeakerColor(segment.speaker, speakers).border}` : ''} ${
+                              mediaFile ? 'cursor-pointer' : ''
+                            }`}
+                          >
+                            {segment.speaker && (
+                              <div className={`text-xs font-medium mb-1 ${getSpeakerColor(segment.speaker, speakers).text}`}>
+                                {segment.speaker}
                               </div>
                             )}
-                            <div className="flex-1 text-gray-200">
-                              {highlightSearchTerm(segment.text)}
+                            <div className="flex items-start gap-3">
+                              {showTimestamps && (
+                                <div className="flex-shrink-0">
+                                  <Badge variant="outline" className="text-xs">
+                                    {formatDuration(segment.start)}
+                                  </Badge>
+                                </div>
+                              )}
+                              <div className="flex-1 text-gray-200">
+                                {isEditing && editor ? (
+                                  <SegmentEditor
+                                    segment={segment}
+                                    isLast={segment.id === editor.segments.length - 1}
+                                    onTextChange={(text) => editor.updateText(segment.id, text)}
+                                    onSplit={(offset, text) => editor.split(segment.id, offset, text)}
+                                    onMerge={() => editor.merge(segment.id)}
+                                    onNudge={(edge, delta) => editor.nudge(segment.id, edge, delta)}
+                                  />
+                                ) : segment.id === activeSegmentId && segment.words?.length && !matcher ? (
+                                  renderKaraoke(segment)
+                                ) : !matcher && suggestions.some(suggestion => suggestion.segmentId === segment.id) ? (
+                                  renderSuggestions(segment, suggestions.filter(suggestion => suggestion.segmentId === segment.id))
+                                ) : (
+                                  highlightMatches(
+                                    segment.text,
+                                    segmentMatches.bySegment.get(segment.id)?.ranges,
+                                    segmentMatches.bySegment.get(segment.id)?.firstIndex
+                                  )
+                                )}
+                              </div>
+                              {!!segmentConfidence?.flags.length && (
+                                <span
+                                  className="flex-shrink-0 text-orange-400"
+                                  title={`Olası halüsinasyon: ${segmentConfidence.flags.map(flag => HALLUCINATION_LABELS[flag]).join(', ')}`}
+                                >
+                                  <AlertTriangle className="w-4 h-4" />
+                                </span>
+                              )}
+                              {segment.no_speech_prob !== undefined && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    toggleSegmentExpansion(segment.id);
+                                  }}
+                                  className="p-1 h-auto"
+                                >
+                                  {expandedSegments.has(segment.id) ? 
+                                    <ChevronUp className="w-4 h-4" /> : 
+                                    <ChevronDown className="w-4 h-4" />
+                                  }
+                                </Button>
+                              )}
                             </div>
-                            {segment.no_speech_prob !== undefined && (
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => toggleSegmentExpansion(segment.id)}
-                                className="p-1 h-auto"
-                              >
-                                {expandedSegments.has(segment.id) ? 
-                                  <ChevronUp className="w-4 h-4" /> : 
-                                  <ChevronDown className="w-4 h-4" />
-                                }
-                              </Button>
-                            )}
-                          </div>
                           
-                          <AnimatePresence>
-                            {expandedSegments.has(segment.id) && (
-                              <motion.div
-                                initial={{ opacity: 0, height: 0 }}
-                                animate={{ opacity: 1, height: 'auto' }}
-                                exit={{ opacity: 0, height: 0 }}
-                                className="mt-3 pt-3 border-t border-gray-700 text-xs text-gray-400 space-y-1"
-                              >
-                                <div>Süre: {formatDuration(segment.start)} - {formatDuration(segment.end)}</div>
-                                {segment.no_speech_prob !== undefined && (
-                                  <div>Sessizlik Oranı: {(segment.no_speech_prob * 100).toFixed(1)}%</div>
-                                )}
-                                {segment.avg_logprob !== undefined && (
-                                  <div>Güven: {((1 + segment.avg_logprob) * 100).toFixed(1)}%</div>
-                                )}
-                              </motion.div>
-                            )}
-                          </AnimatePresence>
-                        </motion.div>
-                      ))
+                            <AnimatePresence>
+                              {expandedSegments.has(segment.id) && (
+                                <motion.div
+                                  initial={{ opacity: 0, height: 0 }}
+                                  animate={{ opacity: 1, height: 'auto' }}
+                                  exit={{ opacity: 0, height: 0 }}
+                                  className="mt-3 pt-3 border-t border-gray-700 text-xs text-gray-400 space-y-1"
+                                >
+                                  <div>Süre: {formatDuration(segment.start)} - {formatDuration(segment.end)}</div>
+                                  {segment.no_speech_prob !== undefined && (
+                                    <div>Sessizlik Oranı: {(segment.no_speech_prob * 100).toFixed(1)}%</div>
+                                  )}
+                                  {segmentConfidence?.score !== undefined && (
+                                    <div className={CONFIDENCE_COLORS[segmentConfidence.level].text}>
+                                      Güven: {(segmentConfidence.score * 100).toFixed(1)}%
+                                    </div>
+                                  )}
+                                  {segment.compression_ratio !== undefined && (
+                                    <div>Sıkıştırma Oranı: {segment.compression_ratio.toFixed(2)}</div>
+                                  )}
+                                  {segmentConfidence?.flags.map(flag => (
+                                    <div key={flag} className="text-orange-400">{HALLUCINATION_LABELS[flag]}</div>
+                                  ))}
+                                </motion.div>
+                              )}
+                            </AnimatePresence>
+                          </motion.div>
+                        );
+                      })
                     )}
                   </ScrollArea>
                 </TabsContent>
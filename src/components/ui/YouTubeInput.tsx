@@ -12,6 +12,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
+import { api } from '@/lib/api';
+import { ConnectionState, ReconnectingSocket } from '@/lib/socket';
+import { DownloadProgress, DownloadResult } from '@/lib/types';
 import { 
   Youtube, 
   Download, 
@@ -26,6 +29,7 @@ import {
   AudioLines,
   Globe,
   Settings,
+  WifiOff,
   Zap
 } from 'lucide-react';
 
@@ -54,27 +58,6 @@ interface YouTubeFormat {
   format_note: string;
 }
 
-interface DownloadProgress {
-  status: string;
-  percent?: string;
-  speed?: string;
-  eta?: string;
-  filename?: string;
-  message?: string;
-}
-
-interface DownloadResult {
-  session_id: string;
-  video_id: string;
-  filename: string;
-  file_path: string;
-  file_size: number;
-  quality: string;
-  duration?: number;
-  title: string;
-  uploader?: string;
-}
-
 interface YouTubeInputProps {
   onDownloadComplete?: (result: DownloadResult) => void;
   onError?: (error: string) => void;
@@ -97,7 +80,8 @@ const YouTubeInput: React.FC<YouTubeInputProps> = ({
   const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
   const [downloadResult, setDownloadResult] = useState<DownloadResult | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const [websocket, setWebsocket] = useState<WebSocket | null>(null);
+  const [websocket, setWebsocket] = useState<ReconnectingSocket | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('closed');
 
   // URL validation
   const validateYouTubeUrl = useCallback((inputUrl: string): boolean => {
@@ -196,17 +180,8 @@ const YouTubeInput: React.FC<YouTubeInputProps> = ({
 
   // Setup WebSocket connection for download progress
   const setupWebSocket = (sessionId: string) => {
-    const wsUrl = `ws://localhost:8000/youtube/download/${sessionId}/ws`;
-    const ws = new WebSocket(wsUrl);
-    
-    ws.onopen = () => {
-      console.log('WebSocket connected for session:', sessionId);
-    };
-    
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        
+    const ws = api.connectDownloadSocket(sessionId, {
+      onMessage: (data) => {
         if (data.type === 'progress_update') {
           setDownloadProgress(data);
         } else if (data.type === 'status_update') {
@@ -215,6 +190,7 @@ const YouTubeInput: React.FC<YouTubeInputProps> = ({
           if (data.status === 'completed' && data.result) {
             setDownloadResult(data.result);
             setIsDownloading(false);
+            ws.close();
             onDownloadComplete?.(data.result);
             
             toast({
@@ -223,6 +199,7 @@ const YouTubeInput: React.FC<YouTubeInputProps> = ({
             });
           } else if (data.status === 'failed') {
             setIsDownloading(false);
+            ws.close();
             const errorMessage = data.error || 'Download failed';
             toast({
               title: "Download Failed",
@@ -232,18 +209,12 @@ const YouTubeInput: React.FC<YouTubeInputProps> = ({
             onError?.(errorMessage);
           }
         }
-      } catch (error) {
-        console.error('WebSocket message parsing error:', error);
-      }
-    };
-    
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-    };
-    
-    ws.onclose = () => {
-      console.log('WebSocket closed for session:', sessionId);
-    };
+      },
+      onStateChange: (state) => {
+        console.log(`Download WebSocket ${state} for session:`, sessionId);
+        setConnectionState(state);
+      },
+    });
     
     setWebsocket(ws);
     return ws;
@@ -590,11 +561,19 @@ const YouTubeInput: React.FC<YouTubeInputProps> = ({
                                  downloadProgress.status}
                               </span>
                             </div>
-                            {downloadProgress.percent && (
-                              <Badge variant="secondary" className="font-mono">
-                                {downloadProgress.percent}
-                              </Badge>
-                            )}
+                            <div className="flex items-center gap-2">
+                              {isDownloading && connectionState === 'reconnecting' && (
+                                <Badge variant="outline" className="text-yellow-600 dark:text-yellow-400 border-yellow-500/50">
+                                  <WifiOff className="h-3 w-3" />
+                                  Reconnecting...
+                                </Badge>
+                              )}
+                              {downloadProgress.percent && (
+                                <Badge variant="secondary" className="font-mono">
+                                  {downloadProgress.percent}
+                                </Badge>
+                              )}
+                            </div>
                           </div>
                           
                           {downloadProgress.percent && (
@@ -0,0 +1,51 @@
+// Custom hook for advanced transcription options that persist between sessions
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  DEFAULT_ADVANCED_OPTIONS,
+  loadAdvancedOptions,
+  saveAdvancedOptions,
+  toTranscriptionRequest,
+  validateAdvancedOptions
+} from '@/lib/options';
+import { AdvancedOptions, HealthStatus, TranscriptionRequest } from '@/lib/types';
+
+export function useAdvancedOptions(health?: HealthStatus | null) {
+  const [options, setOptions] = useState<AdvancedOptions>(DEFAULT_ADVANCED_OPTIONS);
+  const [loaded, setLoaded] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setOptions(loadAdvancedOptions());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveAdvancedOptions(options);
+  }, [options, loaded]);
+
+  const setOption = useCallback(<K extends keyof AdvancedOptions>(field: K, value: AdvancedOptions[K]) => {
+    setOptions(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  const resetOptions = useCallback(() => {
+    setOptions(DEFAULT_ADVANCED_OPTIONS);
+  }, []);
+
+  const errors = useMemo(() => validateAdvancedOptions(options, health), [options, health]);
+
+  const getRequestOptions = useCallback(
+    (): TranscriptionRequest => toTranscriptionRequest(options, errors),
+    [options, errors]
+  );
+
+  return {
+    options,
+    errors,
+    isValid: Object.keys(errors).length === 0,
+    setOption,
+    setOptions,
+    resetOptions,
+    getRequestOptions,
+  };
+}
@@ -0,0 +1,54 @@
+// Custom hook for managing glossaries and the one applied to new transcriptions
+
+import { useState, useCallback, useEffect } from 'react';
+import { loadGlossaries, saveGlossaries } from '@/lib/glossary';
+import { Glossary } from '@/lib/types';
+
+export function useGlossaries() {
+  const [glossaries, setGlossaries] = useState<Glossary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    const stored = loadGlossaries();
+    setGlossaries(stored.glossaries);
+    setActiveId(stored.activeId);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveGlossaries(glossaries, activeId);
+  }, [glossaries, activeId, loaded]);
+
+  const createGlossary = useCallback((name: string, terms: string[] = []) => {
+    const now = Date.now();
+    const glossary = { id: crypto.randomUUID(), name, terms, createdAt: now, updatedAt: now };
+    setGlossaries(prev => [...prev, glossary]);
+    setActiveId(glossary.id);
+    return glossary;
+  }, []);
+
+  const updateGlossary = useCallback((id: string, patch: Partial<Pick<Glossary, 'name' | 'terms'>>) => {
+    setGlossaries(prev => prev.map(glossary =>
+      glossary.id === id ? { ...glossary, ...patch, updatedAt: Date.now() } : glossary
+    ));
+  }, []);
+
+  const deleteGlossary = useCallback((id: string) => {
+    setGlossaries(prev => prev.filter(glossary => glossary.id !== id));
+    setActiveId(prev => (prev === id ? null : prev));
+  }, []);
+
+  // A stale id (e.g. from a deleted glossary or an imported preset) means no glossary
+  const activeGlossary = glossaries.find(glossary => glossary.id === activeId);
+
+  return {
+    glossaries,
+    activeGlossary,
+    setActiveId,
+    createGlossary,
+    updateGlossary,
+    deleteGlossary,
+  };
+}
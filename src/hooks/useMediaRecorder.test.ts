@@ -0,0 +1,178 @@
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { act, createElement } from 'react';
+import type { Root } from 'react-dom/client';
+import { Window } from 'happy-dom';
+import type { useMediaRecorder as UseMediaRecorder } from './useMediaRecorder';
+
+type Recorder = ReturnType<typeof UseMediaRecorder>;
+type RecorderOptions = Parameters<typeof UseMediaRecorder>[0];
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = () => true;
+
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor() {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  pause() {
+    this.state = 'paused';
+  }
+
+  resume() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['audio']) });
+    this.onstop?.();
+  }
+}
+
+// The level meter is not under test; it only needs something to connect to
+class FakeAudioContext {
+  createAnalyser() {
+    return { fftSize: 0, getByteTimeDomainData: () => undefined };
+  }
+
+  createMediaStreamSource() {
+    return { connect: () => undefined };
+  }
+
+  close() {
+    return Promise.resolve();
+  }
+}
+
+const fakeStream = () => {
+  const track = { stopped: false, onended: null, stop: () => { track.stopped = true; } };
+  const stream = { getTracks: () => [track], getAudioTracks: () => [track] } as unknown as MediaStream;
+  return { stream, track };
+};
+
+// Set before react-dom loads, since it checks for a DOM when it is first imported
+const window = new Window();
+Object.assign(globalThis, {
+  window,
+  document: window.document,
+  IS_REACT_ACT_ENVIRONMENT: true,
+  MediaRecorder: FakeMediaRecorder,
+  AudioContext: FakeAudioContext,
+  requestAnimationFrame: () => 1,
+  cancelAnimationFrame: () => undefined,
+});
+Object.defineProperty(globalThis, 'navigator', {
+  configurable: true,
+  value: {
+    userAgent: 'node',
+    mediaDevices: {
+      getUserMedia: () => Promise.resolve(fakeStream().stream),
+      enumerateDevices: () => Promise.resolve([]),
+    },
+  },
+});
+
+let createRoot: typeof import('react-dom/client').createRoot;
+let useMediaRecorder: typeof UseMediaRecorder;
+let root: Root | null = null;
+
+before(async () => {
+  ({ createRoot } = await import('react-dom/client'));
+  ({ useMediaRecorder } = await import('./useMediaRecorder'));
+});
+
+const renderRecorder = async (options: RecorderOptions) => {
+  const current = {} as { recorder: Recorder };
+  const Probe = () => {
+    current.recorder = useMediaRecorder(options);
+    return null;
+  };
+  root = createRoot(window.document.createElement('div') as unknown as HTMLElement);
+  await act(async () => root?.render(createElement(Probe)));
+  return current;
+};
+
+const advance = (milliseconds: number) => act(() => mock.timers.tick(milliseconds));
+
+describe('useMediaRecorder', () => {
+  beforeEach(() => {
+    FakeMediaRecorder.instances = [];
+    mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1_000_000 });
+  });
+
+  afterEach(async () => {
+    await act(async () => root?.unmount());
+    root = null;
+    mock.timers.reset();
+  });
+
+  it('stops by itself at the maximum duration', async () => {
+    const { stream } = fakeStream();
+    const current = await renderRecorder({ maxDuration: 2, getStream: () => Promise.resolve(stream) });
+
+    await act(() => current.recorder.start());
+    assert.equal(current.recorder.status, 'recording');
+
+    await advance(1750);
+    assert.equal(current.recorder.status, 'recording');
+    assert.equal(current.recorder.limitReached, false);
+
+    await advance(250);
+    assert.equal(current.recorder.status, 'stopped');
+    assert.equal(current.recorder.limitReached, true);
+    assert.equal(current.recorder.elapsed, 2);
+    assert.ok(current.recorder.recording);
+  });
+
+  it('does not count paused time as elapsed', async () => {
+    const { stream } = fakeStream();
+    const current = await renderRecorder({ maxDuration: 60, getStream: () => Promise.resolve(stream) });
+
+    await act(() => current.recorder.start());
+    await advance(1000);
+    act(() => current.recorder.pause());
+    assert.equal(current.recorder.status, 'paused');
+
+    await advance(5000);
+    assert.equal(current.recorder.elapsed, 1);
+
+    act(() => current.recorder.resume());
+    await advance(1500);
+    act(() => current.recorder.stop());
+    assert.equal(current.recorder.status, 'stopped');
+    assert.equal(current.recorder.elapsed, 2.5);
+  });
+
+  it('releases a stream granted after unmount', async () => {
+    const { stream, track } = fakeStream();
+    let grant: (stream: MediaStream) => void = () => undefined;
+    const pending = new Promise<MediaStream>(resolve => {
+      grant = resolve;
+    });
+    const current = await renderRecorder({ getStream: () => pending });
+
+    let started: Promise<void> | undefined;
+    act(() => {
+      started = current.recorder.start();
+    });
+    assert.equal(current.recorder.status, 'requesting');
+
+    await act(async () => root?.unmount());
+    root = null;
+    grant(stream);
+    await started;
+
+    assert.equal(track.stopped, true);
+    assert.equal(FakeMediaRecorder.instances.length, 0);
+  });
+});
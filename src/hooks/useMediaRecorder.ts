@@ -0,0 +1,277 @@
+// Custom hook for recording from a microphone with a live input level
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  DEFAULT_MAX_RECORDING_SECONDS,
+  buildRecordingFile,
+  computeLevel,
+  pickRecordingFormat
+} from '@/lib/recording';
+import { RecordingStatus } from '@/lib/types';
+
+interface UseMediaRecorderOptions {
+  maxDuration?: number;
+  // Replaces the microphone, e.g. with a synthetic stream from an AudioContext
+  getStream?: (deviceId?: string) => Promise<MediaStream>;
+}
+
+const getMicrophoneStream = (deviceId?: string): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+  });
+
+export function useMediaRecorder(options: UseMediaRecorderOptions = {}) {
+  const { maxDuration = DEFAULT_MAX_RECORDING_SECONDS, getStream = getMicrophoneStream } = options;
+
+  // State
+  const [status, setStatus] = useState<RecordingStatus>('idle');
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [level, setLevel] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const [recording, setRecording] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [limitReached, setLimitReached] = useState(false);
+  // Assumed until mount so server and client render the same markup
+  const [isSupported, setIsSupported] = useState(true);
+
+  // Refs
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+  // Seconds recorded before the current segment, and when that segment started
+  const accumulatedRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
+  // The permission prompt can outlive the component; a stream granted after unmount is released at once
+  const mountedRef = useRef(true);
+
+  const currentElapsed = () =>
+    accumulatedRef.current + (segmentStartRef.current ? (Date.now() - segmentStartRef.current) / 1000 : 0);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      setDevices(all.filter(device => device.kind === 'audioinput'));
+    } catch (error) {
+      console.warn('Failed to list audio inputs:', error);
+    }
+  }, []);
+
+  // Labels only show up once permission is granted, so the list is refreshed after starting too
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setIsSupported(false);
+      return;
+    }
+    refreshDevices();
+    navigator.mediaDevices.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener?.('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  // Releases the microphone and the meter; the recorded chunks are kept
+  const release = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => undefined);
+    audioContextRef.current = null;
+    setLevel(0);
+  }, []);
+
+  const clearPreview = useCallback(() => {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+    previewUrlRef.current = null;
+    setPreviewUrl(null);
+    setRecording(null);
+  }, []);
+
+  const stop = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === 'inactive') return;
+    accumulatedRef.current = currentElapsed();
+    segmentStartRef.current = null;
+    setElapsed(accumulatedRef.current);
+    recorder.stop();
+  }, []);
+
+  const startMeter = (stream: MediaStream) => {
+    try {
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      context.createMediaStreamSource(stream).connect(analyser);
+      audioContextRef.current = context;
+
+      const samples = new Uint8Array(analyser.fftSize);
+      const tick = () => {
+        if (recorderRef.current?.state === 'recording') {
+          analyser.getByteTimeDomainData(samples);
+          setLevel(computeLevel(samples));
+        } else {
+          setLevel(0);
+        }
+        frameRef.current = requestAnimationFrame(tick);
+      };
+      tick();
+    } catch (error) {
+      // Recording still works without the meter
+      console.warn('Input level meter unavailable:', error);
+    }
+  };
+
+  const start = useCallback(async () => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') return;
+
+    const format = pickRecordingFormat();
+    if (!format) {
+      setError('Bu tarayıcı desteklenen bir formatta ses kaydedemiyor');
+      return;
+    }
+
+    clearPreview();
+    setError(null);
+    setLimitReached(false);
+    setStatus('requesting');
+
+    let stream: MediaStream;
+    try {
+      stream = await getStream(deviceId);
+    } catch (error) {
+      if (!mountedRef.current) return;
+      console.error('Microphone access failed:', error);
+      setError(error instanceof DOMException && error.name === 'NotAllowedError'
+        ? 'Mikrofon izni reddedildi'
+        : 'Mikrofona erişilemedi');
+      setStatus('idle');
+      return;
+    }
+    if (!mountedRef.current) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    streamRef.current = stream;
+    refreshDevices();
+
+    const chunks: Blob[] = [];
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    } catch (error) {
+      console.error('Failed to create MediaRecorder:', error);
+      release();
+      setError('Kayıt başlatılamadı');
+      setStatus('idle');
+      return;
+    }
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      release();
+      recorderRef.current = null;
+      if (!chunks.length) {
+        setStatus('idle');
+        return;
+      }
+      const file = buildRecordingFile(chunks, format);
+      previewUrlRef.current = URL.createObjectURL(file);
+      setPreviewUrl(previewUrlRef.current);
+      setRecording(file);
+      setStatus('stopped');
+    };
+    recorderRef.current = recorder;
+
+    // An unplugged microphone ends the track; keep what was recorded so far
+    stream.getAudioTracks().forEach(track => {
+      track.onended = () => stop();
+    });
+
+    accumulatedRef.current = 0;
+    segmentStartRef.current = Date.now();
+    setElapsed(0);
+    recorder.start(1000);
+    setStatus('recording');
+    startMeter(stream);
+
+    timerRef.current = setInterval(() => {
+      const seconds = currentElapsed();
+      setElapsed(seconds);
+      if (seconds >= maxDuration) {
+        setLimitReached(true);
+        stop();
+      }
+    }, 250);
+  }, [deviceId, getStream, maxDuration, clearPreview, refreshDevices, release, stop]);
+
+  const pause = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder?.state !== 'recording') return;
+    recorder.pause();
+    accumulatedRef.current = currentElapsed();
+    segmentStartRef.current = null;
+    setStatus('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder?.state !== 'paused') return;
+    recorder.resume();
+    segmentStartRef.current = Date.now();
+    setStatus('recording');
+  }, []);
+
+  const discard = useCallback(() => {
+    clearPreview();
+    accumulatedRef.current = 0;
+    setElapsed(0);
+    setLimitReached(false);
+    setStatus('idle');
+  }, [clearPreview]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      release();
+      if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+    };
+  }, [release]);
+
+  return {
+    status,
+    devices,
+    deviceId,
+    setDeviceId,
+    level,
+    elapsed,
+    maxDuration,
+    recording,
+    previewUrl,
+    error,
+    limitReached,
+    isSupported,
+    start,
+    pause,
+    resume,
+    stop,
+    discard,
+  };
+}
@@ -0,0 +1,165 @@
+// Custom hook for transcribing one file with several models side by side
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { api, APIError } from '@/lib/api';
+import { compareRuns, getLargestRun, getReferenceRun, recommendModel } from '@/lib/comparison';
+import { compareModelCost } from '@/lib/models';
+import { progressFromSegments } from '@/lib/progress';
+import { ComparisonRun, FileInfo, ModelSize, TranscriptionRequest } from '@/lib/types';
+
+interface UseModelComparisonOptions {
+  pollingInterval?: number;
+}
+
+export function useModelComparison(options: UseModelComparisonOptions = {}) {
+  const { pollingInterval = 2000 } = options;
+
+  // State
+  const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [runs, setRuns] = useState<ComparisonRun[]>([]);
+  // Kept apart from runs so polling does not recompute the diffs
+  const [progress, setProgress] = useState<Partial<Record<ModelSize, number>>>({});
+
+  // Refs
+  const stopPollingRef = useRef<Map<ModelSize, () => void>>(new Map());
+  // Bumped on reset so callbacks of an abandoned comparison are ignored
+  const generationRef = useRef(0);
+
+  const stopAll = useCallback(() => {
+    stopPollingRef.current.forEach((stop) => stop());
+    stopPollingRef.current.clear();
+  }, []);
+
+  // Cleanup on unmount
+  useEffect(() => stopAll, [stopAll]);
+
+  const updateRun = useCallback((model: ModelSize, patch: Partial<ComparisonRun>) => {
+    setRuns(prev => prev.map(run => run.model === model ? { ...run, ...patch } : run));
+  }, []);
+
+  const runModel = useCallback(async (
+    fileId: string,
+    model: ModelSize,
+    requestOptions: TranscriptionRequest,
+    duration: number | undefined,
+    generation: number
+  ): Promise<void> => {
+    try {
+      const startedAt = Date.now();
+      const response = await api.startTranscription(fileId, { ...requestOptions, model_size: model });
+      if (generation !== generationRef.current) return;
+
+      updateRun(model, { status: 'transcribing', taskId: response.task_id, startedAt });
+
+      const stop = await api.pollTaskStatus(
+        response.task_id,
+        (update) => {
+          if (generation !== generationRef.current) return;
+
+          if (update.status === 'completed') {
+            stopPollingRef.current.delete(model);
+            setProgress(prev => ({ ...prev, [model]: 100 }));
+            updateRun(model, { status: 'completed', result: update, finishedAt: Date.now() });
+          } else if (update.status === 'failed') {
+            stopPollingRef.current.delete(model);
+            updateRun(model, { status: 'failed', error: update.error || 'Transcription başarısız', finishedAt: Date.now() });
+          } else {
+            const candidate = progressFromSegments(update.segments, duration);
+            if (candidate === undefined) return;
+            setProgress(prev => candidate > (prev[model] ?? 0) ? { ...prev, [model]: candidate } : prev);
+          }
+        },
+        pollingInterval
+      );
+
+      if (generation === generationRef.current) {
+        stopPollingRef.current.set(model, stop);
+      } else {
+        stop();
+      }
+    } catch (error) {
+      if (generation !== generationRef.current) return;
+      const message = error instanceof APIError ? error.message : 'Transcription başlatılamadı';
+      updateRun(model, { status: 'failed', error: message });
+    }
+  }, [pollingInterval, updateRun]);
+
+  // Upload once, then start every model on the same file_id
+  const startComparison = useCallback(async (
+    file: File,
+    models: ModelSize[],
+    requestOptions: TranscriptionRequest = {}
+  ): Promise<void> => {
+    if (models.length < 2) {
+      toast.error('Karşılaştırma için en az iki model seçin');
+      return;
+    }
+
+    stopAll();
+    const generation = ++generationRef.current;
+    const ordered = [...models].sort(compareModelCost);
+    setRuns(ordered.map(model => ({ model, status: 'queued' })));
+    setProgress({});
+    setFileInfo(null);
+    setUploading(true);
+    setUploadProgress(0);
+
+    try {
+      const upload = await api.uploadFile(file, setUploadProgress);
+      const info = await api.getFileInfo(upload.file_id);
+      if (generation !== generationRef.current) return;
+
+      setFileInfo(info);
+      setUploading(false);
+      await Promise.all(ordered.map(model =>
+        runModel(upload.file_id, model, requestOptions, info.duration, generation)
+      ));
+    } catch (error) {
+      if (generation !== generationRef.current) return;
+      const message = error instanceof APIError ? error.message : 'Dosya yüklenemedi';
+      setUploading(false);
+      setRuns(prev => prev.map(run => ({ ...run, status: 'failed', error: message })));
+      toast.error(message);
+    }
+  }, [runModel, stopAll]);
+
+  const reset = useCallback(() => {
+    generationRef.current++;
+    stopAll();
+    setRuns([]);
+    setProgress({});
+    setFileInfo(null);
+    setUploading(false);
+    setUploadProgress(0);
+  }, [stopAll]);
+
+  const rows = useMemo(() => compareRuns(runs, fileInfo?.duration), [runs, fileInfo]);
+  const referenceModel = useMemo(() => getReferenceRun(runs)?.model, [runs]);
+  const largestRun = useMemo(() => getLargestRun(runs), [runs]);
+  // A smaller model standing in for a failed largest run is no yardstick for a recommendation
+  const failedLargestModel = largestRun?.status === 'failed' ? largestRun.model : undefined;
+  const isRunning = uploading || runs.some(run => run.status === 'queued' || run.status === 'transcribing');
+  // Only recommend once every model has had its say
+  const recommendation = useMemo(
+    () => isRunning || failedLargestModel ? undefined : recommendModel(rows),
+    [isRunning, failedLargestModel, rows]
+  );
+
+  return {
+    fileInfo,
+    uploading,
+    uploadProgress,
+    runs,
+    progress,
+    rows,
+    referenceModel,
+    failedLargestModel,
+    recommendation,
+    isRunning,
+    startComparison,
+    reset,
+  };
+}
@@ -0,0 +1,58 @@
+// Custom hook for per-model processing time estimates and the time budget they are checked against
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { listHistory } from '@/lib/history';
+import {
+  DEFAULT_BUDGET_MINUTES,
+  estimateModelTimes,
+  loadBudgetMinutes,
+  saveBudgetMinutes,
+  suggestModel
+} from '@/lib/estimate';
+import { HealthStatus, HistoryEntry, ModelSize } from '@/lib/types';
+
+interface UseModelEstimatesOptions {
+  duration?: number;
+  health?: HealthStatus | null;
+  models?: ModelSize[];
+  // Changing this reloads the history, e.g. after a transcription finishes
+  refreshKey?: string;
+}
+
+export function useModelEstimates({ duration, health, models, refreshKey }: UseModelEstimatesOptions) {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [budgetMinutes, setBudgetMinutesState] = useState(DEFAULT_BUDGET_MINUTES);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setBudgetMinutesState(loadBudgetMinutes());
+  }, []);
+
+  useEffect(() => {
+    listHistory()
+      .then(setHistory)
+      .catch((error) => console.error('Failed to load history for estimates:', error));
+  }, [refreshKey]);
+
+  const setBudgetMinutes = useCallback((minutes: number) => {
+    setBudgetMinutesState(minutes);
+    saveBudgetMinutes(minutes);
+  }, []);
+
+  const estimates = useMemo(
+    () => estimateModelTimes(duration, health, history, models),
+    [duration, health, history, models]
+  );
+  const budgetSeconds = budgetMinutes * 60;
+  const recommendedModel = useMemo(
+    () => suggestModel(estimates, budgetSeconds),
+    [estimates, budgetSeconds]
+  );
+
+  return {
+    estimates,
+    recommendedModel,
+    budgetMinutes,
+    setBudgetMinutes,
+  };
+}
@@ -0,0 +1,27 @@
+// Custom hook for the models the server offers, described with built-in fallbacks
+
+import { useState, useEffect, useMemo } from 'react';
+import { api } from '@/lib/api';
+import { buildModelRegistry } from '@/lib/models';
+import { HealthStatus, ModelInfo } from '@/lib/types';
+
+export function useModelRegistry(health?: HealthStatus | null) {
+  const [serverModels, setServerModels] = useState<ModelInfo[]>([]);
+
+  // Load the registry on mount
+  useEffect(() => {
+    api.getModels()
+      .then(setServerModels)
+      .catch((error) => console.warn('Model registry unavailable, using fallback list:', error));
+  }, []);
+
+  const models = useMemo(
+    () => buildModelRegistry(serverModels, health?.available_models),
+    [serverModels, health]
+  );
+
+  return {
+    models,
+    fromServer: serverModels.length > 0,
+  };
+}
@@ -0,0 +1,84 @@
+// Custom hook for managing saved transcription presets
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  DEFAULT_PRESETS,
+  createPresetId,
+  loadPresets,
+  parsePresets,
+  savePresets,
+  serializePresets
+} from '@/lib/presets';
+import { TranscriptionPreset } from '@/lib/types';
+
+type PresetDraft = Omit<TranscriptionPreset, 'id' | 'createdAt' | 'updatedAt'>;
+
+export function usePresets() {
+  const [presets, setPresets] = useState<TranscriptionPreset[]>(DEFAULT_PRESETS);
+  const [loaded, setLoaded] = useState(false);
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setPresets(loadPresets());
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (loaded) savePresets(presets);
+  }, [presets, loaded]);
+
+  const createPreset = useCallback((draft: PresetDraft): TranscriptionPreset => {
+    const now = Date.now();
+    const preset = { ...draft, id: createPresetId(), createdAt: now, updatedAt: now };
+    setPresets(prev => [...prev, preset]);
+    return preset;
+  }, []);
+
+  const updatePreset = useCallback((id: string, patch: Partial<PresetDraft>) => {
+    setPresets(prev => prev.map(preset =>
+      preset.id === id ? { ...preset, ...patch, updatedAt: Date.now() } : preset
+    ));
+  }, []);
+
+  const duplicatePreset = useCallback((id: string) => {
+    setPresets(prev => {
+      const index = prev.findIndex(preset => preset.id === id);
+      if (index === -1) return prev;
+      const now = Date.now();
+      const copy = {
+        ...prev[index],
+        id: createPresetId(),
+        name: `${prev[index].name} (kopya)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(preset => preset.id !== id));
+  }, []);
+
+  // Throws PresetImportError; the caller reports it
+  const importPresets = useCallback((json: string): number => {
+    const imported = parsePresets(json);
+    setPresets(prev => [...prev, ...imported]);
+    return imported.length;
+  }, []);
+
+  const exportPresets = useCallback(
+    (ids?: string[]) => serializePresets(ids ? presets.filter(preset => ids.includes(preset.id)) : presets),
+    [presets]
+  );
+
+  return {
+    presets,
+    createPreset,
+    updatePreset,
+    duplicatePreset,
+    deletePreset,
+    importPresets,
+    exportPresets,
+  };
+}
@@ -0,0 +1,186 @@
+// Custom hook for editing transcript segments with undo/redo
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  applySegments,
+  mergeWithNext,
+  nudgeSegment,
+  renameSpeaker as renameSegmentSpeaker,
+  splitSegment,
+  updateSegmentText,
+  updateSegmentTexts
+} from '@/lib/segments';
+import { SegmentEdge, TranscriptionResponse, TranscriptionSegment } from '@/lib/types';
+
+// Oldest steps are dropped beyond this
+const MAX_HISTORY = 100;
+
+interface EditorHistory {
+  source?: TranscriptionResponse;
+  past: TranscriptionSegment[][];
+  present: TranscriptionSegment[];
+  future: TranscriptionSegment[][];
+}
+
+const createHistory = (result?: TranscriptionResponse): EditorHistory => ({
+  source: result,
+  past: [],
+  present: result?.segments ?? [],
+  future: [],
+});
+
+const sameSegments = (a?: TranscriptionSegment[], b?: TranscriptionSegment[]): boolean =>
+  !!a && !!b && a.length === b.length && a.every((segment, index) => {
+    const other = b[index];
+    return segment.id === other.id && segment.start === other.start && segment.end === other.end &&
+      segment.text === other.text && segment.speaker === other.speaker;
+  });
+
+// Points the history at the new result's segments, so undoing all the way back is clean again
+const rebaseHistory = (history: EditorHistory, result: TranscriptionResponse): EditorHistory => {
+  const original = history.source?.segments;
+  const rebase = (segments: TranscriptionSegment[]) =>
+    segments === original && result.segments ? result.segments : segments;
+  return {
+    source: result,
+    past: history.past.map(rebase),
+    present: rebase(history.present),
+    future: history.future.map(rebase),
+  };
+};
+
+export function useTranscriptEditor(result?: TranscriptionResponse) {
+  const [storedHistory, setHistory] = useState<EditorHistory>(() => createHistory(result));
+  // Edits of results that are not on screen, by task id, so switching between
+  // the main result and queue items keeps them
+  const parkedRef = useRef(new Map<string, EditorHistory>());
+
+  // Switching results parks the current edits and picks up the new result's;
+  // doing it during render avoids showing the previous transcript's segments for a frame
+  let history = storedHistory;
+  if (history.source !== result) {
+    const parked = parkedRef.current;
+    const previousId = history.source?.task_id;
+    if (previousId && (history.past.length > 0 || history.future.length > 0)) {
+      parked.set(previousId, history);
+    }
+
+    // Parked edits only apply to the segments they were made on; the same task's result
+    // may arrive again as a new object (socket, then poll) with identical segments
+    const saved = result?.task_id ? parked.get(result.task_id) : undefined;
+    if (result?.task_id) parked.delete(result.task_id);
+    history = saved && result && sameSegments(saved.source?.segments, result.segments)
+      ? rebaseHistory(saved, result)
+      : createHistory(result);
+    setHistory(history);
+  }
+
+  const apply = useCallback((edit: (segments: TranscriptionSegment[]) => TranscriptionSegment[]) => {
+    setHistory(prev => {
+      const next = edit(prev.present);
+      if (next === prev.present) return prev;
+      return {
+        ...prev,
+        past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const updateText = useCallback((id: number, text: string) => {
+    apply(segments => {
+      const current = segments.find(segment => segment.id === id);
+      return current && current.text !== text ? updateSegmentText(segments, id, text) : segments;
+    });
+  }, [apply]);
+
+  const updateTexts = useCallback((texts: Map<number, string>) => {
+    apply(segments => {
+      const next = updateSegmentTexts(segments, texts);
+      return next.some((segment, index) => segment !== segments[index]) ? next : segments;
+    });
+  }, [apply]);
+
+  const split = useCallback((id: number, offset: number, text?: string) => {
+    apply(segments => splitSegment(segments, id, offset, text));
+  }, [apply]);
+
+  const merge = useCallback((id: number) => {
+    apply(segments => mergeWithNext(segments, id));
+  }, [apply]);
+
+  const nudge = useCallback((id: number, edge: SegmentEdge, delta: number) => {
+    apply(segments => nudgeSegment(segments, id, edge, delta));
+  }, [apply]);
+
+  const renameSpeaker = useCallback((from: string, to: string) => {
+    apply(segments => renameSegmentSpeaker(segments, from, to));
+  }, [apply]);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        ...prev,
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        ...prev,
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  const discard = useCallback(() => {
+    setHistory(createHistory(result));
+  }, [result]);
+
+  // Undoing back to the server's segments restores the same array, so identity is enough
+  const isDirty = !!result?.segments && history.present !== result.segments;
+
+  // Warn before closing the tab with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  // Result with the edited segments, for copying and exporting
+  const editedResult = useMemo(
+    () => (result && isDirty ? applySegments(result, history.present) : result),
+    [result, isDirty, history.present]
+  );
+
+  return {
+    segments: history.present,
+    editedResult,
+    isDirty,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    updateText,
+    updateTexts,
+    split,
+    merge,
+    nudge,
+    renameSpeaker,
+    undo,
+    redo,
+    discard,
+  };
+}
+
+export type TranscriptEditor = ReturnType<typeof useTranscriptEditor>;
@@ -2,12 +2,20 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { toast } from 'sonner';
-import { api, APIError } from '@/lib/api';
+import { api, APIError, createUploadId } from '@/lib/api';
+import { ConnectionState, ReconnectingSocket } from '@/lib/socket';
+import { advanceProgress, progressFromSegments } from '@/lib/progress';
+import { dismissTask, findTaskToRestore, saveTask, updateTask } from '@/lib/taskStore';
+import { recordTranscription } from '@/lib/history';
+import { saveBlob } from '@/lib/download';
+import { exportFilename, exportTranscript } from '@/lib/export';
 import {
   FileUploadResponse,
   FileInfo,
   TranscriptionRequest,
   TranscriptionResponse,
+  DownloadFormat,
+  ExportOptions,
   ModelSize,
   TaskStatus,
   UploadState,
@@ -37,11 +45,17 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
 
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
   const [uploadedFile, setUploadedFile] = useState<FileUploadResponse | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('closed');
 
   // Refs
   const stopPollingRef = useRef<(() => void) | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const wsRef = useRef<ReconnectingSocket | null>(null);
   const toastIdRef = useRef<string | number | null>(null);
+  const protocolErrorShownRef = useRef(false);
+  const fileInfoRef = useRef<FileInfo | null>(null);
+  const fileRef = useRef<File | null>(null);
+  const uploadedFileRef = useRef<FileUploadResponse | null>(null);
+  const uploadIdRef = useRef<string | null>(null);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -64,13 +78,18 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
     });
 
     toastIdRef.current = toast.loading('Dosya yükleniyor...');
+    fileRef.current = file;
+
+    const uploadId = createUploadId();
+    uploadIdRef.current = uploadId;
 
     try {
       const response = await api.uploadFile(file, (progress) => {
         setUploadState(prev => ({ ...prev, progress }));
-      });
+      }, uploadId);
 
       setUploadedFile(response);
+      uploadedFileRef.current = response;
       setUploadState(prev => ({
         ...prev,
         uploading: false,
@@ -83,6 +102,7 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
       // Get file info
       const info = await api.getFileInfo(response.file_id);
       setFileInfo(info);
+      fileInfoRef.current = info;
 
       return response;
     } catch (error) {
@@ -102,14 +122,152 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
     }
   }, [onError]);
 
+  // Follow a running task through polling and the WebSocket
+  const watchTask = useCallback(async (taskId: string): Promise<void> => {
+    const finishTask = (update: TranscriptionResponse) => {
+      updateTask(taskId, {
+        status: update.status,
+        result: update.status === 'completed' ? update : undefined,
+        error: update.error,
+      }).catch((error) => console.error('Failed to persist task:', error));
+
+      if (update.status === 'completed') {
+        const filename = fileRef.current?.name || uploadedFileRef.current?.filename || 'transcript';
+        recordTranscription(update, filename, fileInfoRef.current?.duration)
+          .catch((error) => console.error('Failed to save history entry:', error));
+      }
+    };
+
+    // Start polling
+    stopPollingRef.current = await api.pollTaskStatus(
+      taskId,
+      (update) => {
+        // Partial segments tell us how far into the audio the decoder is
+        const candidate = update.status === 'completed'
+          ? 100
+          : progressFromSegments(update.segments, fileInfoRef.current?.duration);
+
+        setTranscriptionState(prev => ({
+          ...prev,
+          ...advanceProgress(prev, candidate, fileInfoRef.current?.duration),
+          status: update.status,
+          result: update,
+        }));
+
+        if (update.status === 'completed') {
+          finishTask(update);
+          if (toastIdRef.current) {
+            toast.success('Transcription tamamlandı!', { id: toastIdRef.current });
+          } else {
+            toast.success('Transcription tamamlandı!');
+          }
+          toastIdRef.current = null;
+          onSuccess?.(update);
+        } else if (update.status === 'failed') {
+          finishTask(update);
+          if (toastIdRef.current) {
+            toast.error('Transcription başarısız: ' + (update.error || 'Bilinmeyen hata'), { id: toastIdRef.current });
+          } else {
+            toast.error('Transcription başarısız: ' + (update.error || 'Bilinmeyen hata'));
+          }
+          toastIdRef.current = null;
+          onError?.(new Error(update.error || 'Transcription failed'));
+        }
+      },
+      pollingInterval
+    );
+
+    // Optional: Connect WebSocket for real-time updates
+    protocolErrorShownRef.current = false;
+    try {
+      console.log('🔌 Attempting to connect WebSocket for task:', taskId);
+      setConnectionState('connecting');
+      wsRef.current = api.connectWebSocket(taskId, {
+        onMessage: (message) => {
+          console.log('📨 WebSocket update received:', message);
+          
+          // Handle different message types
+          switch (message.type) {
+            case 'progress':
+              setTranscriptionState(prev => ({
+                ...prev,
+                ...advanceProgress(prev, message.data.progress, fileInfoRef.current?.duration),
+                stage: message.data.stage || prev.stage,
+                message: message.data.message || '',
+              }));
+              
+              // Update toast with progress
+              if (toastIdRef.current) {
+                toast.loading(`${message.data.stage || 'Processing'}: ${message.data.progress}%`, {
+                  id: toastIdRef.current,
+                  description: message.data.message || 'Transcription in progress...'
+                });
+              }
+              break;
+            case 'status':
+              setTranscriptionState(prev => ({
+                ...prev,
+                ...advanceProgress(prev, message.data.progress, fileInfoRef.current?.duration),
+                status: message.data.status,
+              }));
+              break;
+            case 'result':
+              setTranscriptionState(prev => ({
+                ...prev,
+                ...advanceProgress(prev, 100, fileInfoRef.current?.duration),
+                status: 'completed',
+                result: message.data,
+              }));
+              finishTask(message.data);
+              wsRef.current?.close();
+              break;
+            case 'error':
+              setTranscriptionState(prev => ({
+                ...prev,
+                status: 'failed',
+                error: message.data.error,
+              }));
+              updateTask(taskId, { status: 'failed', error: message.data.error })
+                .catch((error) => console.error('Failed to persist task:', error));
+              wsRef.current?.close();
+              break;
+          }
+        },
+        onProtocolError: (error) => {
+          // Surface backend/frontend drift instead of silently ignoring frames
+          if (!protocolErrorShownRef.current) {
+            protocolErrorShownRef.current = true;
+            toast.error('Sunucu mesajı anlaşılamadı: ' + error.message);
+          }
+        },
+        onStateChange: setConnectionState,
+        onError: (error) => {
+          console.error('❌ WebSocket error:', error);
+        },
+        onClose: () => {
+          console.log('🔌 WebSocket disconnected');
+          wsRef.current = null;
+        },
+        onOpen: () => {
+          console.log('✅ WebSocket connected successfully');
+        }
+      });
+    } catch (wsError) {
+      console.error('❌ Failed to connect WebSocket:', wsError);
+    }
+  }, [onSuccess, onError, pollingInterval]);
+
   // Start transcription
   const startTranscription = useCallback(async (
     fileId: string,
     options: TranscriptionRequest = {}
   ): Promise<void> => {
+    const startedAt = Date.now();
     setTranscriptionState({
       status: 'processing',
       progress: 0,
+      startedAt,
+      lastProgressAt: startedAt,
       error: undefined,
     });
 
@@ -124,105 +282,31 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
         status: response.status,
       }));
 
-      toast.loading('İşlem devam ediyor...', { id: toastIdRef.current ?? undefined });
-
-      // Start polling
-      stopPollingRef.current = await api.pollTaskStatus(
-        response.task_id,
-        (update) => {
-          setTranscriptionState(prev => ({
-            ...prev,
-            status: update.status,
-            result: update,
-            progress: update.status === 'processing' ? Math.random() * 50 + 25 : // Dynamic progress
-                     update.status === 'completed' ? 100 : 
-                     update.status === 'failed' ? 0 : prev.progress,
-          }));
-
-          if (update.status === 'completed') {
-            if (toastIdRef.current) {
-              toast.success('Transcription tamamlandı!', { id: toastIdRef.current });
-            } else {
-              toast.success('Transcription tamamlandı!');
-            }
-            toastIdRef.current = null;
-            onSuccess?.(update);
-          } else if (update.status === 'failed') {
-            if (toastIdRef.current) {
-              toast.error('Transcription başarısız: ' + (update.error || 'Bilinmeyen hata'), { id: toastIdRef.current });
-            } else {
-              toast.error('Transcription başarısız: ' + (update.error || 'Bilinmeyen hata'));
-            }
-            toastIdRef.current = null;
-            onError?.(new Error(update.error || 'Transcription failed'));
-          }
+      // Remember the task so a reload can reattach to it
+      const upload = uploadedFileRef.current?.file_id === fileId
+        ? uploadedFileRef.current
+        : { file_id: fileId, filename: '', size: 0, path: '' };
+      const file = fileRef.current;
+      saveTask({
+        taskId: response.task_id,
+        upload,
+        file: {
+          name: file?.name ?? upload.filename,
+          size: file?.size ?? upload.size,
+          type: file?.type ?? '',
+          lastModified: file?.lastModified ?? 0,
         },
-        pollingInterval
-      );
+        fileInfo: fileInfoRef.current ?? undefined,
+        options,
+        status: response.status,
+        dismissed: false,
+        createdAt: startedAt,
+        updatedAt: startedAt,
+      }).catch((error) => console.error('Failed to persist task:', error));
 
-      // Optional: Connect WebSocket for real-time updates
-      try {
-        console.log('🔌 Attempting to connect WebSocket for task:', response.task_id);
-        wsRef.current = api.connectWebSocket(response.task_id, {
-          onMessage: (data) => {
-            console.log('📨 WebSocket update received:', data);
-            
-            // Handle different message types
-            if (data.type === 'progress') {
-              console.log('📊 Progress update:', data.data);
-              setTranscriptionState(prev => ({
-                ...prev,
-                progress: data.data.progress || 0,
-                stage: data.data.stage || prev.stage,
-                message: data.data.message || '',
-              }));
-              
-              // Update toast with progress
-              if (toastIdRef.current) {
-                toast.loading(`${data.data.stage || 'Processing'}: ${data.data.progress || 0}%`, {
-                  id: toastIdRef.current,
-                  description: data.data.message || 'Transcription in progress...'
-                });
-              }
-            } else if (data.type === 'status') {
-              console.log('🎯 Status update:', data.data);
-              setTranscriptionState(prev => ({
-                ...prev,
-                status: data.data.status,
-                progress: data.data.progress || prev.progress,
-              }));
-            } else if (data.type === 'result') {
-              console.log('✅ Result received:', data.data);
-              setTranscriptionState(prev => ({
-                ...prev,
-                status: 'completed',
-                progress: 100,
-                result: data.data,
-              }));
-            } else if (data.type === 'error') {
-              console.log('❌ Error received:', data.data);
-              setTranscriptionState(prev => ({
-                ...prev,
-                status: 'failed',
-                error: data.data.error,
-              }));
-            }
-          },
-          onError: (error) => {
-            console.error('❌ WebSocket error:', error);
-          },
-          onClose: () => {
-            console.log('🔌 WebSocket disconnected');
-            wsRef.current = null;
-          },
-          onOpen: () => {
-            console.log('✅ WebSocket connected successfully');
-          }
-        });
-      } catch (wsError) {
-        console.error('❌ Failed to connect WebSocket:', wsError);
-      }
+      toast.loading('İşlem devam ediyor...', { id: toastIdRef.current ?? undefined });
 
+      await watchTask(response.task_id);
     } catch (error) {
       const message = error instanceof APIError ? error.message : 'Transcription başlatılamadı';
       
@@ -236,7 +320,108 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
       toastIdRef.current = null;
       onError?.(error as Error);
     }
-  }, [onSuccess, onError, pollingInterval]);
+  }, [onError, watchTask]);
+
+  // Callers often pass inline callbacks, so reach the latest watchTask through a ref
+  const watchTaskRef = useRef(watchTask);
+  useEffect(() => {
+    watchTaskRef.current = watchTask;
+  }, [watchTask]);
+
+  // Restore the last task after a page reload
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      const task = await findTaskToRestore();
+      if (!task || cancelled) return;
+
+      setUploadedFile(task.upload);
+      uploadedFileRef.current = task.upload;
+      if (task.fileInfo) {
+        setFileInfo(task.fileInfo);
+        fileInfoRef.current = task.fileInfo;
+      }
+
+      // Finished results come straight from storage, without a request
+      if (task.status === 'completed' && task.result) {
+        setTranscriptionState({
+          taskId: task.taskId,
+          status: 'completed',
+          progress: 100,
+          result: task.result,
+        });
+        return;
+      }
+
+      if (task.status === 'failed') {
+        setTranscriptionState({
+          taskId: task.taskId,
+          status: 'failed',
+          progress: 0,
+          error: task.error,
+        });
+        return;
+      }
+
+      let update: TranscriptionResponse;
+      try {
+        update = await api.getTaskStatus(task.taskId);
+      } catch (error) {
+        // The task expired or the server restarted; retrying it on every reload would never succeed
+        if (error instanceof APIError && error.status === 404) {
+          await dismissTask(task.taskId);
+          if (cancelled) return;
+          setUploadedFile(null);
+          uploadedFileRef.current = null;
+          setFileInfo(null);
+          fileInfoRef.current = null;
+          toast.warning('Önceki transcription sunucuda bulunamadı; dosyayı yeniden başlatın');
+          return;
+        }
+        throw error;
+      }
+      if (cancelled) return;
+
+      if (update.status === 'completed' || update.status === 'failed') {
+        setTranscriptionState({
+          taskId: task.taskId,
+          status: update.status,
+          progress: update.status === 'completed' ? 100 : 0,
+          result: update,
+          error: update.error,
+        });
+        await updateTask(task.taskId, {
+          status: update.status,
+          result: update.status === 'completed' ? update : undefined,
+          error: update.error,
+        });
+        if (update.status === 'completed') {
+          await recordTranscription(update, task.file.name || task.upload.filename, task.fileInfo?.duration);
+        }
+        return;
+      }
+
+      setTranscriptionState({
+        taskId: task.taskId,
+        status: 'processing',
+        progress: 0,
+        startedAt: task.createdAt,
+        lastProgressAt: Date.now(),
+        result: update,
+      });
+      toastIdRef.current = toast.loading('Devam eden transcription bulundu, yeniden bağlanılıyor...');
+      await watchTaskRef.current(task.taskId);
+    };
+
+    restore().catch((error) => {
+      console.error('Failed to restore task:', error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Process file (upload + transcribe)
   const processFile = useCallback(async (
@@ -251,45 +436,33 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
   }, [uploadFile, startTranscription]);
 
   // Download result
-  const downloadResult = useCallback(async (
-    format: 'txt' | 'srt' | 'json'
-  ): Promise<void> => {
-    if (!transcriptionState.taskId) {
+  // Exports are built locally, so edited transcripts download as edited and work offline
+  const downloadResult = useCallback((
+    format: DownloadFormat,
+    options: ExportOptions = {},
+    result: TranscriptionResponse | undefined = transcriptionState.result,
+    sourceName: string | undefined = uploadState.file?.name
+  ): void => {
+    if (!result) {
       toast.error('İndirilebilecek transcription sonucu yok');
       return;
     }
 
-    const downloadToast = toast.loading(`${format.toUpperCase()} indiriliyor...`);
-
-    try {
-      const blob = await api.downloadResult(transcriptionState.taskId, format);
-      
-      // Create download link
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `transcript.${format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      toast.success('İndirme tamamlandı', { id: downloadToast });
-    } catch (error) {
-      const message = error instanceof APIError ? error.message : 'İndirme başarısız';
-      toast.error(message, { id: downloadToast });
-    }
-  }, [transcriptionState.taskId]);
+    saveBlob(exportTranscript(result, format, options), exportFilename(format, sourceName));
+    toast.success('İndirme tamamlandı');
+  }, [transcriptionState.result, uploadState.file]);
 
   // Copy to clipboard
-  const copyToClipboard = useCallback(async (): Promise<void> => {
-    if (!transcriptionState.result?.text) {
+  const copyToClipboard = useCallback(async (
+    text: string | undefined = transcriptionState.result?.text
+  ): Promise<void> => {
+    if (!text) {
       toast.error('Kopyalanacak metin yok');
       return;
     }
 
     try {
-      await navigator.clipboard.writeText(transcriptionState.result.text);
+      await navigator.clipboard.writeText(text);
       toast.success('Metin kopyalandı');
     } catch (clipboardError) {
       console.error('Clipboard error:', clipboardError);
@@ -300,8 +473,8 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
   // Cancel operations
   const cancel = useCallback(() => {
     // Cancel upload if in progress
-    if (uploadState.file && uploadState.uploading) {
-      api.cancelUpload(uploadState.file.name);
+    if (uploadState.uploading && uploadIdRef.current) {
+      api.cancelUpload(uploadIdRef.current);
       setUploadState(prev => ({
         ...prev,
         uploading: false,
@@ -335,7 +508,14 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
         error: 'İşlem kullanıcı tarafından iptal edildi',
       }));
     }
-  }, [uploadState.file, uploadState.uploading, transcriptionState.status]);
+
+    // Otherwise a reload would reattach to the task the user just cancelled
+    const { taskId, status } = transcriptionState;
+    if (taskId && status !== 'completed' && status !== 'failed') {
+      updateTask(taskId, { status: 'failed', error: 'İşlem kullanıcı tarafından iptal edildi' })
+        .catch((error) => console.error('Failed to store cancelled task:', error));
+    }
+  }, [uploadState.uploading, transcriptionState]);
 
   // Reset state
   const reset = useCallback(() => {
@@ -360,8 +540,17 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
       result: undefined,
     });
     
+    // Keep the finished task in storage, but don't bring it back on the next load
+    if (transcriptionState.taskId) {
+      dismissTask(transcriptionState.taskId)
+        .catch((error) => console.error('Failed to dismiss task:', error));
+    }
+
     setFileInfo(null);
+    fileInfoRef.current = null;
+    fileRef.current = null;
     setUploadedFile(null);
+    uploadedFileRef.current = null;
 
     // Cleanup refs
     if (stopPollingRef.current) {
@@ -378,7 +567,7 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
       toast.dismiss(toastIdRef.current);
       toastIdRef.current = null;
     }
-  }, [uploadState.uploading, transcriptionState.status, cancel]);
+  }, [uploadState.uploading, transcriptionState.status, transcriptionState.taskId, cancel]);
 
   return {
     // State
@@ -386,6 +575,7 @@ export function useTranscription(options: UseTranscriptionOptions = {}) {
     transcriptionState,
     fileInfo,
     uploadedFile,
+    connectionState,
     
     // Actions
     uploadFile,
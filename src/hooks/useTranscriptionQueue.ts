@@ -0,0 +1,320 @@
+// Custom hook for transcribing many files with limited concurrency
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { api, APIError } from '@/lib/api';
+import { advanceProgress, progressFromSegments } from '@/lib/progress';
+import { recordTranscription } from '@/lib/history';
+import {
+  QueueItem,
+  QueueItemStatus,
+  TranscriptionRequest
+} from '@/lib/types';
+
+interface UseTranscriptionQueueOptions {
+  concurrency?: number;
+  pollingInterval?: number;
+  onItemComplete?: (item: QueueItem) => void;
+}
+
+// Uploading counts for this share of an item's progress, transcription for the rest
+const UPLOAD_WEIGHT = 0.2;
+
+const ACTIVE_STATUSES: QueueItemStatus[] = ['uploading', 'transcribing'];
+const FINISHED_STATUSES: QueueItemStatus[] = ['completed', 'failed', 'cancelled'];
+
+export const getItemProgress = (item: QueueItem): number => {
+  switch (item.status) {
+    case 'completed':
+      return 100;
+    case 'transcribing':
+      return UPLOAD_WEIGHT * 100 + (1 - UPLOAD_WEIGHT) * item.transcription.progress;
+    default:
+      return UPLOAD_WEIGHT * item.uploadProgress;
+  }
+};
+
+export function useTranscriptionQueue(options: UseTranscriptionQueueOptions = {}) {
+  const { pollingInterval = 2000 } = options;
+
+  // State
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [concurrency, setConcurrency] = useState(options.concurrency ?? 2);
+
+  // Refs
+  const itemsRef = useRef<QueueItem[]>([]);
+  const stopPollingRef = useRef<Map<string, () => void>>(new Map());
+  const onItemCompleteRef = useRef(options.onItemComplete);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  useEffect(() => {
+    onItemCompleteRef.current = options.onItemComplete;
+  }, [options.onItemComplete]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    const stopPolling = stopPollingRef.current;
+    return () => {
+      stopPolling.forEach((stop) => stop());
+      stopPolling.clear();
+    };
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<QueueItem> | ((item: QueueItem) => Partial<QueueItem>)) => {
+    const apply = (list: QueueItem[]) => list.map(item =>
+      item.id === id
+        ? { ...item, ...(typeof patch === 'function' ? patch(item) : patch) }
+        : item
+    );
+
+    // Update the ref right away so in-flight uploads see a pause or cancel before the next render
+    itemsRef.current = apply(itemsRef.current);
+    setItems(apply);
+  }, []);
+
+  const getStatus = useCallback((id: string): QueueItemStatus | undefined =>
+    itemsRef.current.find(item => item.id === id)?.status, []);
+
+  const isInterrupted = useCallback((id: string): boolean => {
+    const status = getStatus(id);
+    return status === 'paused' || status === 'cancelled' || status === undefined;
+  }, [getStatus]);
+
+  // Upload (unless already uploaded) and transcribe a single item
+  const runItem = useCallback(async (item: QueueItem): Promise<void> => {
+    let fileId = item.fileId;
+    let fileInfo = item.fileInfo;
+
+    updateItem(item.id, { status: fileId ? 'transcribing' : 'uploading', error: undefined });
+
+    try {
+      if (!fileId) {
+        // The item id names the upload, so pause and cancel reach this one even if names collide
+        const upload = await api.uploadFile(item.file, (progress) => {
+          updateItem(item.id, { uploadProgress: progress });
+        }, item.id);
+        fileId = upload.file_id;
+        fileInfo = await api.getFileInfo(fileId);
+        updateItem(item.id, { fileId, fileInfo, uploadProgress: 100 });
+      }
+
+      // The user may have paused or cancelled while the upload finished
+      if (isInterrupted(item.id)) return;
+
+      // A task started before a pause or cancel is picked up again rather than started twice
+      let taskId = item.transcription.taskId;
+      let startedAt = item.transcription.startedAt ?? Date.now();
+      if (!taskId) {
+        startedAt = Date.now();
+        const response = await api.startTranscription(fileId, item.options);
+        taskId = response.task_id;
+        if (isInterrupted(item.id)) {
+          const started = { taskId, startedAt };
+          updateItem(item.id, (current) => ({ transcription: { ...current.transcription, ...started } }));
+          return;
+        }
+      }
+
+      updateItem(item.id, {
+        status: 'transcribing',
+        transcription: {
+          taskId,
+          status: 'pending',
+          progress: 0,
+          startedAt,
+          lastProgressAt: Date.now(),
+        },
+      });
+
+      // Queue items only poll; one WebSocket per file would not scale to a whole series
+      const stop = await api.pollTaskStatus(
+        taskId,
+        (update) => {
+          const candidate = update.status === 'completed'
+            ? 100
+            : progressFromSegments(update.segments, fileInfo?.duration);
+
+          updateItem(item.id, (current) => ({
+            status: update.status === 'completed' ? 'completed' :
+                    update.status === 'failed' ? 'failed' : current.status,
+            error: update.status === 'failed' ? (update.error || 'Transcription failed') : undefined,
+            transcription: {
+              ...current.transcription,
+              ...advanceProgress(current.transcription, candidate, fileInfo?.duration),
+              status: update.status,
+              result: update,
+              error: update.error,
+            },
+          }));
+
+          if (update.status === 'completed' || update.status === 'failed') {
+            stopPollingRef.current.delete(item.id);
+          }
+
+          if (update.status === 'completed') {
+            recordTranscription(update, item.file.name, fileInfo?.duration)
+              .catch((error) => console.error('Failed to save history entry:', error));
+
+            const completed = itemsRef.current.find(queued => queued.id === item.id);
+            if (completed) {
+              onItemCompleteRef.current?.({
+                ...completed,
+                status: 'completed',
+                transcription: { ...completed.transcription, status: 'completed', progress: 100, result: update },
+              });
+            }
+          } else if (update.status === 'failed') {
+            toast.error(`${item.file.name}: ${update.error || 'Transcription başarısız'}`);
+          }
+        },
+        pollingInterval
+      );
+      stopPollingRef.current.set(item.id, stop);
+    } catch (error) {
+      // Pausing or cancelling aborts the upload; that is not a failure
+      if (isInterrupted(item.id)) return;
+
+      const message = error instanceof APIError ? error.message : 'İşlem başarısız';
+      updateItem(item.id, { status: 'failed', error: message });
+      toast.error(`${item.file.name}: ${message}`);
+    }
+  }, [pollingInterval, updateItem, isInterrupted]);
+
+  // Start queued items in order while there are free slots
+  useEffect(() => {
+    const active = items.filter(item => ACTIVE_STATUSES.includes(item.status)).length;
+    const slots = concurrency - active;
+    if (slots <= 0) return;
+
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, slots)
+      .forEach(item => runItem(item));
+  }, [items, concurrency, runItem]);
+
+  // Add files to the end of the queue
+  const addFiles = useCallback((files: File[], transcriptionOptions: TranscriptionRequest = {}) => {
+    const added: QueueItem[] = files.map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      options: transcriptionOptions,
+      status: 'queued',
+      uploadProgress: 0,
+      transcription: { status: 'pending', progress: 0 },
+    }));
+
+    setItems(prev => [...prev, ...added]);
+  }, []);
+
+  const pause = useCallback((id: string) => {
+    const item = itemsRef.current.find(queued => queued.id === id);
+    if (!item) return;
+
+    // A running transcription lives on the server and cannot be paused
+    if (item.status === 'queued') {
+      updateItem(id, { status: 'paused' });
+    } else if (item.status === 'uploading') {
+      updateItem(id, { status: 'paused' });
+      api.pauseUpload(id);
+    }
+  }, [updateItem]);
+
+  const resume = useCallback((id: string) => {
+    if (getStatus(id) === 'paused') {
+      updateItem(id, { status: 'queued' });
+    }
+  }, [updateItem, getStatus]);
+
+  const cancel = useCallback((id: string) => {
+    const item = itemsRef.current.find(queued => queued.id === id);
+    if (!item || FINISHED_STATUSES.includes(item.status)) return;
+
+    updateItem(id, { status: 'cancelled', error: 'İptal edildi' });
+
+    if (item.status === 'uploading') {
+      api.cancelUpload(id);
+    }
+
+    stopPollingRef.current.get(id)?.();
+    stopPollingRef.current.delete(id);
+  }, [updateItem]);
+
+  // Failed or cancelled items go back into the queue; finished uploads are reused
+  const retry = useCallback((id: string) => {
+    const status = getStatus(id);
+    if (status !== 'failed' && status !== 'cancelled') return;
+
+    updateItem(id, (item) => ({
+      status: 'queued',
+      error: undefined,
+      uploadProgress: item.fileId ? 100 : 0,
+      // The server cannot stop a task, so a cancelled item reattaches to the one it started
+      transcription: status === 'cancelled' && item.transcription.taskId && item.transcription.status !== 'failed'
+        ? { status: 'pending', progress: 0, taskId: item.transcription.taskId, startedAt: item.transcription.startedAt }
+        : { status: 'pending', progress: 0 },
+    }));
+  }, [updateItem, getStatus]);
+
+  // Move an item up (negative offset) or down (positive offset)
+  const move = useCallback((id: string, offset: number) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      const [item] = next.splice(index, 1);
+      next.splice(target, 0, item);
+      return next;
+    });
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    cancel(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  }, [cancel]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => !FINISHED_STATUSES.includes(item.status)));
+  }, []);
+
+  // Computed
+  const aggregate = useMemo(() => {
+    const counted = items.filter(item => item.status !== 'cancelled');
+    const progress = counted.length
+      ? counted.reduce((sum, item) => sum + getItemProgress(item), 0) / counted.length
+      : 0;
+
+    return {
+      total: items.length,
+      completed: items.filter(item => item.status === 'completed').length,
+      failed: items.filter(item => item.status === 'failed').length,
+      active: items.filter(item => ACTIVE_STATUSES.includes(item.status)).length,
+      progress,
+    };
+  }, [items]);
+
+  return {
+    // State
+    items,
+    concurrency,
+    aggregate,
+
+    // Actions
+    addFiles,
+    pause,
+    resume,
+    cancel,
+    retry,
+    move,
+    remove,
+    clearFinished,
+    setConcurrency,
+
+    // Computed
+    isRunning: aggregate.active > 0,
+  };
+}
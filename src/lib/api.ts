@@ -6,12 +6,31 @@ import {
   TranscriptionRequest,
   TranscriptionResponse,
   HealthStatus,
+  ModelInfo,
   TaskStatus,
-  OutputFormat
+  OutputFormat,
+  UploadSession,
+  ServerMessage,
+  DownloadSocketMessage
 } from './types';
+import {
+  PROTOCOL_VERSION,
+  ProtocolError,
+  createHelloMessage,
+  parseDownloadMessage,
+  parseServerMessage
+} from './protocol';
+import { parseModelList } from './models';
+import { ConnectionState, ReconnectingSocket } from './socket';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
+const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8 MB
+const MAX_CHUNK_RETRIES = 8;
+const CHUNK_RETRY_BASE_DELAY = 1000;
+const CHUNK_RETRY_MAX_DELAY = 30000;
+const UPLOAD_SESSION_STORAGE_PREFIX = 'transcription:upload-session:';
+
 class APIError extends Error {
   constructor(
     message: string,
@@ -23,13 +42,117 @@ class APIError extends Error {
   }
 }
 
+interface ActiveUpload {
+  controller: AbortController;
+  fingerprint: string;
+  sessionId?: string;
+}
+
+// Distinguishes concurrent uploads, even of files with the same name
+let uploadCounter = 0;
+export const createUploadId = (): string => `upload-${Date.now()}-${++uploadCounter}`;
+
+// Identifies the same local file across page reloads
+const getFileFingerprint = (file: File): string =>
+  `${file.name}:${file.size}:${file.lastModified}`;
+
+const loadStoredUploadSession = (fingerprint: string): string | null => {
+  try {
+    return localStorage.getItem(UPLOAD_SESSION_STORAGE_PREFIX + fingerprint);
+  } catch {
+    return null;
+  }
+};
+
+const storeUploadSession = (fingerprint: string, sessionId: string): void => {
+  try {
+    localStorage.setItem(UPLOAD_SESSION_STORAGE_PREFIX + fingerprint, sessionId);
+  } catch {
+    // Storage may be unavailable (private mode); the upload just won't survive a reload
+  }
+};
+
+const clearStoredUploadSession = (fingerprint: string): void => {
+  try {
+    localStorage.removeItem(UPLOAD_SESSION_STORAGE_PREFIX + fingerprint);
+  } catch {
+    // Ignore storage errors
+  }
+};
+
+// crypto.subtle only exists on secure origins; over plain http (LAN, Docker) chunks go without a checksum
+const sha256Hex = async (blob: Blob): Promise<string | undefined> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Network failures, timeouts, checksum mismatches (409) and server errors are worth retrying
+const isRetryableUploadError = (error: unknown): boolean => {
+  if (!(error instanceof APIError)) return false;
+  if (error.status === undefined) return true;
+  return [408, 409, 429].includes(error.status) || error.status >= 500;
+};
+
+// The 'abort' event has already fired for a signal aborted earlier, so check it before listening
+const throwIfAborted = (signal: AbortSignal): void => {
+  if (signal.aborted) throw new APIError('Upload cancelled');
+};
+
+const delay = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new APIError('Upload cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(new APIError('Upload cancelled'));
+    };
+    const id = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const waitForOnline = (signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new APIError('Upload cancelled'));
+      return;
+    }
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      resolve();
+      return;
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('online', onOnline);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onOnline = () => {
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new APIError('Upload cancelled'));
+    };
+
+    window.addEventListener('online', onOnline);
+    signal.addEventListener('abort', onAbort);
+  });
+
 class TranscriptionAPI {
   private baseURL: string;
-  private abortControllers: Map<string, AbortController>;
+  private uploads: Map<string, ActiveUpload>;
 
   constructor() {
     this.baseURL = API_BASE_URL;
-    this.abortControllers = new Map();
+    this.uploads = new Map();
   }
 
   private async fetchWithTimeout(
@@ -37,22 +160,33 @@ class TranscriptionAPI {
     options: RequestInit = {},
     timeout: number = 900000  // 15 minutes (15 * 60 * 1000)
   ): Promise<Response> {
+    if (options.signal?.aborted) {
+      throw new APIError('Request cancelled');
+    }
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), timeout);
 
+    // Let callers cancel the request through their own signal as well
+    const abortFromCaller = () => controller.abort();
+    options.signal?.addEventListener('abort', abortFromCaller);
+
     try {
       const response = await fetch(url, {
         ...options,
         signal: controller.signal,
       });
-      clearTimeout(id);
       return response;
     } catch (error) {
-      clearTimeout(id);
       if (error instanceof Error && error.name === 'AbortError') {
+        if (options.signal?.aborted) {
+          throw new APIError('Request cancelled');
+        }
         throw new APIError('Request timeout', 408);
       }
       throw error;
+    } finally {
+      clearTimeout(id);
+      options.signal?.removeEventListener('abort', abortFromCaller);
     }
   }
 
@@ -71,64 +205,289 @@ class TranscriptionAPI {
     }
   }
 
+  // Pass your own uploadId to be able to pause or cancel the upload later
   async uploadFile(
     file: File,
-    onProgress?: (progress: number) => void
+    onProgress?: (progress: number) => void,
+    uploadId: string = createUploadId()
   ): Promise<FileUploadResponse> {
-    const formData = new FormData();
-    formData.append('file', file);
+    const upload: ActiveUpload = {
+      controller: new AbortController(),
+      fingerprint: getFileFingerprint(file),
+    };
+    const { signal } = upload.controller;
+    this.uploads.set(uploadId, upload);
+
+    try {
+      const session = await this.resumeOrCreateUploadSession(file, upload.fingerprint, signal);
+      upload.sessionId = session.session_id;
+
+      const chunkSize = session.chunk_size;
+      const totalChunks = Math.max(1, Math.ceil(file.size / chunkSize));
+      const receivedChunks = new Set(session.received_chunks);
+
+      // Chunks the server already has count towards the overall percentage
+      let uploadedBytes = 0;
+      receivedChunks.forEach((index) => {
+        const start = index * chunkSize;
+        uploadedBytes += Math.max(0, Math.min(start + chunkSize, file.size) - start);
+      });
+
+      const reportProgress = (inFlightBytes: number) => {
+        if (!onProgress) return;
+        const progress = file.size > 0 ? ((uploadedBytes + inFlightBytes) / file.size) * 100 : 0;
+        onProgress(Math.min(100, progress));
+      };
+      reportProgress(0);
+
+      for (let index = 0; index < totalChunks; index++) {
+        throwIfAborted(signal);
+        if (receivedChunks.has(index)) continue;
+
+        const start = index * chunkSize;
+        const chunk = file.slice(start, Math.min(start + chunkSize, file.size));
+
+        await this.uploadChunkWithRetry(
+          session.session_id,
+          index,
+          start,
+          chunk,
+          file.size,
+          signal,
+          reportProgress
+        );
+
+        uploadedBytes += chunk.size;
+        reportProgress(0);
+      }
+
+      throwIfAborted(signal);
+      const response = await this.completeUploadSession(session.session_id, signal);
+      clearStoredUploadSession(upload.fingerprint);
+      return response;
+    } catch (error) {
+      if (signal.aborted) {
+        throw new APIError('Upload cancelled');
+      }
+      throw error;
+    } finally {
+      if (this.uploads.get(uploadId) === upload) {
+        this.uploads.delete(uploadId);
+      }
+    }
+  }
+
+  cancelUpload(uploadId: string): void {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return;
+
+    upload.controller.abort();
+    this.uploads.delete(uploadId);
+    clearStoredUploadSession(upload.fingerprint);
+
+    // Discard the server-side session so its chunks do not linger
+    if (upload.sessionId) {
+      fetch(`${this.baseURL}/upload/sessions/${upload.sessionId}`, { method: 'DELETE' })
+        .catch((error) => console.error('Failed to discard upload session:', error));
+    }
+  }
+
+  // Stops sending chunks but keeps the session, so the next uploadFile() resumes it
+  pauseUpload(uploadId: string): void {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return;
+
+    upload.controller.abort();
+    this.uploads.delete(uploadId);
+  }
+
+  private async resumeOrCreateUploadSession(
+    file: File,
+    fingerprint: string,
+    signal: AbortSignal
+  ): Promise<UploadSession> {
+    // Resume a session left over from an interrupted upload or a page reload
+    const storedSessionId = loadStoredUploadSession(fingerprint);
+    if (storedSessionId) {
+      try {
+        const response = await this.fetchWithTimeout(
+          `${this.baseURL}/upload/sessions/${storedSessionId}`,
+          { signal },
+          10000
+        );
+        if (response.ok) {
+          return await response.json();
+        }
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.error('Failed to resume upload session:', error);
+      }
+      clearStoredUploadSession(fingerprint);
+    }
+
+    const response = await this.fetchWithTimeout(
+      `${this.baseURL}/upload/sessions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename: file.name,
+          size: file.size,
+          content_type: file.type || 'application/octet-stream',
+          chunk_size: UPLOAD_CHUNK_SIZE,
+        }),
+        signal,
+      },
+      30000
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new APIError(
+        error.detail || 'Failed to create upload session',
+        response.status
+      );
+    }
+
+    const session: UploadSession = await response.json();
+    storeUploadSession(fingerprint, session.session_id);
+    return session;
+  }
+
+  private async uploadChunkWithRetry(
+    sessionId: string,
+    index: number,
+    offset: number,
+    chunk: Blob,
+    totalSize: number,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+  ): Promise<void> {
+    const checksum = await sha256Hex(chunk);
+    // Pausing or cancelling while the chunk was hashed
+    throwIfAborted(signal);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.uploadChunk(sessionId, index, offset, chunk, totalSize, checksum, signal, onProgress);
+        return;
+      } catch (error) {
+        if (signal.aborted || !isRetryableUploadError(error) || attempt >= MAX_CHUNK_RETRIES) {
+          throw error;
+        }
+
+        console.error(`Chunk ${index} failed (attempt ${attempt + 1}), retrying:`, error);
+        onProgress(0);
+
+        // Wait for the network to come back, then back off before retrying
+        await waitForOnline(signal);
+        await delay(Math.min(CHUNK_RETRY_MAX_DELAY, CHUNK_RETRY_BASE_DELAY * 2 ** attempt), signal);
+      }
+    }
+  }
 
+  private uploadChunk(
+    sessionId: string,
+    index: number,
+    offset: number,
+    chunk: Blob,
+    totalSize: number,
+    checksum: string | undefined,
+    signal: AbortSignal,
+    onProgress: (loaded: number) => void
+  ): Promise<void> {
     // XMLHttpRequest for upload progress
     return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new APIError('Upload cancelled'));
+        return;
+      }
       const xhr = new XMLHttpRequest();
+      const abort = () => xhr.abort();
+      signal.addEventListener('abort', abort);
+
+      const settle = (error?: APIError) => {
+        signal.removeEventListener('abort', abort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
 
       xhr.upload.addEventListener('progress', (e) => {
-        if (e.lengthComputable && onProgress) {
-          const progress = (e.loaded / e.total) * 100;
-          onProgress(progress);
+        if (e.lengthComputable) {
+          onProgress(e.loaded);
         }
       });
 
-      xhr.addEventListener('load', async () => {
+      xhr.addEventListener('load', () => {
         if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const data = JSON.parse(xhr.responseText);
-            resolve(data);
-          } catch (error) {
-            reject(new APIError('Invalid response format'));
-          }
-        } else {
-          try {
-            const error = JSON.parse(xhr.responseText);
-            reject(new APIError(error.detail || 'Upload failed', xhr.status));
-          } catch {
-            reject(new APIError('Upload failed', xhr.status));
-          }
+          settle();
+          return;
+        }
+
+        try {
+          const error = JSON.parse(xhr.responseText);
+          settle(new APIError(error.detail || 'Chunk upload failed', xhr.status));
+        } catch {
+          settle(new APIError('Chunk upload failed', xhr.status));
         }
       });
 
       xhr.addEventListener('error', () => {
-        reject(new APIError('Network error during upload'));
+        settle(new APIError('Network error during upload'));
       });
 
       xhr.addEventListener('abort', () => {
-        reject(new APIError('Upload cancelled'));
+        settle(new APIError('Upload cancelled'));
       });
 
-      xhr.open('POST', `${this.baseURL}/upload`);
-      xhr.send(formData);
-
-      // Store abort controller
-      this.abortControllers.set(file.name, { abort: () => xhr.abort() } as any);
+      xhr.open('PUT', `${this.baseURL}/upload/sessions/${sessionId}/chunks/${index}`);
+      xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+      xhr.setRequestHeader('Content-Range', `bytes ${offset}-${offset + Math.max(chunk.size - 1, 0)}/${totalSize}`);
+      if (checksum) {
+        xhr.setRequestHeader('X-Chunk-Checksum', `sha256=${checksum}`);
+      }
+      xhr.send(chunk);
     });
   }
 
-  cancelUpload(filename: string): void {
-    const controller = this.abortControllers.get(filename);
-    if (controller) {
-      controller.abort();
-      this.abortControllers.delete(filename);
+  private async completeUploadSession(
+    sessionId: string,
+    signal: AbortSignal
+  ): Promise<FileUploadResponse> {
+    const response = await this.fetchWithTimeout(
+      `${this.baseURL}/upload/sessions/${sessionId}/complete`,
+      { method: 'POST', signal }
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new APIError(
+        error.detail || 'Upload failed',
+        response.status
+      );
     }
+
+    return await response.json();
+  }
+
+  // Older servers have no registry endpoint; callers fall back to HealthStatus.available_models
+  async getModels(): Promise<ModelInfo[]> {
+    const response = await this.fetchWithTimeout(`${this.baseURL}/models`, {}, 5000);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new APIError(
+        error.detail || 'Failed to get models',
+        response.status
+      );
+    }
+
+    return parseModelList(await response.json());
   }
 
   async getFileInfo(fileId: string): Promise<FileInfo> {
@@ -188,7 +547,7 @@ class TranscriptionAPI {
 
   async downloadResult(
     taskId: string,
-    format: 'txt' | 'srt' | 'json'
+    format: Exclude<OutputFormat, 'all'>
   ): Promise<Blob> {
     const response = await this.fetchWithTimeout(
       `${this.baseURL}/task/${taskId}/download/${format}`
@@ -208,40 +567,121 @@ class TranscriptionAPI {
   connectWebSocket(
     taskId: string,
     handlers: {
-      onMessage?: (data: any) => void;
+      onMessage?: (message: ServerMessage) => void;
+      onProtocolError?: (error: ProtocolError) => void;
+      onStateChange?: (state: ConnectionState) => void;
       onError?: (error: Event) => void;
       onClose?: () => void;
       onOpen?: () => void;
     }
-  ): WebSocket {
+  ): ReconnectingSocket {
     const wsURL = `${this.baseURL.replace('http', 'ws')}/ws/${taskId}`;
-    const ws = new WebSocket(wsURL);
+    let handshakeComplete = false;
 
-    ws.onopen = () => {
-      console.log('WebSocket connected');
-      handlers.onOpen?.();
+    const failProtocol = (error: ProtocolError) => {
+      console.error('WebSocket protocol error:', error.message, error.frame);
+      handlers.onProtocolError?.(error);
     };
 
-    ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        handlers.onMessage?.(data);
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
-      }
-    };
+    const socket: ReconnectingSocket = new ReconnectingSocket({
+      url: (lastEventId) =>
+        lastEventId === null ? wsURL : `${wsURL}?last_event_id=${lastEventId}`,
+      onOpen: (connection) => {
+        console.log('WebSocket connected');
+        // Every (re)connection starts with a fresh handshake
+        handshakeComplete = false;
+        connection.send(JSON.stringify(createHelloMessage()));
+        handlers.onOpen?.();
+      },
+      onMessage: (data) => {
+        let message: ServerMessage;
+        try {
+          message = parseServerMessage(data);
+        } catch (error) {
+          if (error instanceof ProtocolError) {
+            failProtocol(error);
+            return;
+          }
+          throw error;
+        }
 
-    ws.onerror = (error) => {
-      console.error('WebSocket error:', error);
-      handlers.onError?.(error);
-    };
+        // The server must answer our hello before sending anything else
+        if (message.type === 'hello') {
+          if (message.protocol_version !== PROTOCOL_VERSION) {
+            failProtocol(new ProtocolError(
+              `Unsupported protocol version ${message.protocol_version} (expected ${PROTOCOL_VERSION})`,
+              message
+            ));
+            socket.close(1002, 'Unsupported protocol version');
+            return;
+          }
+          handshakeComplete = true;
+        } else if (!handshakeComplete) {
+          failProtocol(new ProtocolError('Message received before protocol handshake', message));
+          socket.close(1002, 'Protocol handshake missing');
+          return;
+        }
 
-    ws.onclose = () => {
-      console.log('WebSocket disconnected');
-      handlers.onClose?.();
-    };
+        // Skip events replayed after a reconnect that we already handled
+        if (message.event_id !== undefined && !socket.markEventSeen(message.event_id)) {
+          return;
+        }
+
+        handlers.onMessage?.(message);
+      },
+      onError: (error) => {
+        console.error('WebSocket error:', error);
+        handlers.onError?.(error);
+      },
+      onStateChange: (state) => {
+        handlers.onStateChange?.(state);
+        if (state === 'reconnecting') {
+          console.log('WebSocket connection lost, reconnecting...');
+        } else if (state === 'closed') {
+          console.log('WebSocket disconnected');
+          handlers.onClose?.();
+        }
+      },
+    });
+
+    return socket;
+  }
+
+  connectDownloadSocket(
+    sessionId: string,
+    handlers: {
+      onMessage?: (data: DownloadSocketMessage) => void;
+      onStateChange?: (state: ConnectionState) => void;
+      onError?: (error: Event) => void;
+    }
+  ): ReconnectingSocket {
+    const wsURL = `${this.baseURL.replace('http', 'ws')}/youtube/download/${sessionId}/ws`;
+
+    const socket: ReconnectingSocket = new ReconnectingSocket({
+      url: (lastEventId) =>
+        lastEventId === null ? wsURL : `${wsURL}?last_event_id=${lastEventId}`,
+      onMessage: (raw) => {
+        let data: DownloadSocketMessage;
+        try {
+          data = parseDownloadMessage(raw);
+        } catch (error) {
+          // A malformed progress frame is skipped; the next one carries the full state again
+          console.error('Invalid download WebSocket message:', error);
+          return;
+        }
+        if (data.event_id !== undefined && !socket.markEventSeen(data.event_id)) {
+          return;
+        }
+        handlers.onMessage?.(data);
+      },
+      onError: (error) => {
+        console.error('Download WebSocket error:', error);
+        handlers.onError?.(error);
+      },
+      onStateChange: handlers.onStateChange,
+    });
 
-    return ws;
+    return socket;
   }
 
   async pollTaskStatus(
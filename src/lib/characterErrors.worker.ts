@@ -0,0 +1,7 @@
+// Counts character edits between two normalized texts off the main thread
+
+import { editDistance } from './diff';
+
+self.onmessage = (event: MessageEvent<{ reference: string; hypothesis: string }>) => {
+  self.postMessage(editDistance(Array.from(event.data.reference), Array.from(event.data.hypothesis)));
+};
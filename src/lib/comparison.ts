@@ -0,0 +1,66 @@
+// Side-by-side model comparison: timing, agreement with the largest model and a recommendation
+
+import { diffWords, errorRate } from './diff';
+import { compareModelCost } from './models';
+import { ComparisonRow, ComparisonRun, ModelSize } from './types';
+
+// Share of the reference words a cheaper model must reproduce to be recommended
+export const AGREEMENT_THRESHOLD = 0.95;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+// The most expensive completed run is the best available stand-in for the truth
+export function getReferenceRun(runs: ComparisonRun[]): ComparisonRun | undefined {
+  return runs
+    .filter(run => run.status === 'completed' && run.result)
+    .sort((a, b) => compareModelCost(b.model, a.model))[0];
+}
+
+// The most expensive selected run, whatever its status; recommendations are only
+// meaningful when this one is the reference
+export function getLargestRun(runs: ComparisonRun[]): ComparisonRun | undefined {
+  return [...runs].sort((a, b) => compareModelCost(b.model, a.model))[0];
+}
+
+const processingTime = (run: ComparisonRun): number | undefined => {
+  if (run.result?.processing_time !== undefined) return run.result.processing_time;
+  if (run.startedAt && run.finishedAt) return (run.finishedAt - run.startedAt) / 1000;
+  return undefined;
+};
+
+export function compareRuns(runs: ComparisonRun[], mediaDuration?: number): ComparisonRow[] {
+  const reference = getReferenceRun(runs);
+  const referenceText = reference?.result?.text ?? '';
+
+  return runs
+    .filter(run => run.status === 'completed' && run.result)
+    .sort((a, b) => compareModelCost(a.model, b.model))
+    .map(run => {
+      const text = run.result?.text ?? '';
+      const time = processingTime(run);
+      const duration = run.result?.duration ?? mediaDuration;
+      const isReference = run.model === reference?.model;
+      const diff = isReference ? undefined : diffWords(referenceText, text);
+
+      return {
+        model: run.model,
+        processingTime: time,
+        realTimeFactor: time !== undefined && duration ? time / duration : undefined,
+        wordCount: countWords(text),
+        diff,
+        agreement: diff ? Math.max(0, 1 - errorRate(diff)) : 1,
+      };
+    });
+}
+
+// Cheapest model within the threshold; the reference always qualifies, so this only
+// returns undefined when there is nothing to compare
+export function recommendModel(
+  rows: ComparisonRow[],
+  threshold: number = AGREEMENT_THRESHOLD
+): ModelSize | undefined {
+  if (rows.length < 2) return undefined;
+  return [...rows]
+    .sort((a, b) => compareModelCost(a.model, b.model))
+    .find(row => (row.agreement ?? 0) >= threshold)?.model;
+}
@@ -0,0 +1,95 @@
+// Segment confidence scores and hallucination flags from Whisper's decoding statistics
+
+import { ConfidenceLevel, HallucinationFlag, SegmentConfidence, TranscriptionSegment } from './types';
+
+// Whisper itself retries decoding above this ratio; such text is usually a loop
+export const COMPRESSION_RATIO_THRESHOLD = 2.4;
+// Whisper treats a segment as silence above this when the log probability is also low
+export const NO_SPEECH_THRESHOLD = 0.6;
+
+const LEVEL_THRESHOLDS = { high: 0.8, medium: 0.6 };
+
+// A phrase of up to this many words repeated back to back at least MIN_REPEATS times
+const MAX_REPEAT_PHRASE = 4;
+const MIN_REPEATS = 3;
+
+export const CONFIDENCE_COLORS: Record<ConfidenceLevel, { cell: string; tint: string; text: string; label: string }> = {
+  high: { cell: 'bg-green-500', tint: '', text: 'text-green-400', label: 'Yüksek' },
+  medium: { cell: 'bg-yellow-500', tint: 'bg-yellow-500/10', text: 'text-yellow-400', label: 'Orta' },
+  low: { cell: 'bg-red-500', tint: 'bg-red-500/10', text: 'text-red-400', label: 'Düşük' },
+  unknown: { cell: 'bg-gray-600', tint: '', text: 'text-gray-400', label: 'Bilinmiyor' },
+};
+
+export const HALLUCINATION_LABELS: Record<HallucinationFlag, string> = {
+  compression: 'Aşırı tekrarlı çıktı',
+  repetition: 'Tekrarlanan metin',
+  silence: 'Sessizlikte metin',
+};
+
+const normalizeWords = (text: string): string[] =>
+  text.toLocaleLowerCase('tr-TR').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+const hasRepeatedPhrase = (words: string[]): boolean => {
+  for (let size = 1; size <= MAX_REPEAT_PHRASE; size++) {
+    for (let start = 0; start + size * MIN_REPEATS <= words.length; start++) {
+      const phrase = words.slice(start, start + size).join(' ');
+      let repeats = 1;
+      while (
+        repeats < MIN_REPEATS &&
+        words.slice(start + repeats * size, start + (repeats + 1) * size).join(' ') === phrase
+      ) {
+        repeats++;
+      }
+      if (repeats >= MIN_REPEATS) return true;
+    }
+  }
+  return false;
+};
+
+// Word probabilities are the finer signal; otherwise exp(avg_logprob) is the mean token probability
+const baseScore = (segment: TranscriptionSegment): number | undefined => {
+  const probabilities = segment.words
+    ?.map(word => word.probability)
+    .filter((probability): probability is number => probability !== undefined);
+  if (probabilities?.length) {
+    return probabilities.reduce((sum, probability) => sum + probability, 0) / probabilities.length;
+  }
+  return segment.avg_logprob !== undefined ? Math.exp(segment.avg_logprob) : undefined;
+};
+
+const toLevel = (score?: number): ConfidenceLevel =>
+  score === undefined ? 'unknown'
+    : score >= LEVEL_THRESHOLDS.high ? 'high'
+      : score >= LEVEL_THRESHOLDS.medium ? 'medium' : 'low';
+
+export function getSegmentConfidence(
+  segment: TranscriptionSegment,
+  previous?: TranscriptionSegment
+): SegmentConfidence {
+  const noSpeech = segment.no_speech_prob ?? 0;
+  const base = baseScore(segment);
+  const score = base === undefined ? undefined : noSpeech > NO_SPEECH_THRESHOLD ? base * (1 - noSpeech) : base;
+
+  const flags: HallucinationFlag[] = [];
+  if ((segment.compression_ratio ?? 0) > COMPRESSION_RATIO_THRESHOLD) flags.push('compression');
+
+  const words = normalizeWords(segment.text);
+  // Short replies like "Evet." legitimately repeat, so only longer lines count
+  const repeatsPrevious = words.length >= MIN_REPEATS && previous !== undefined &&
+    words.join(' ') === normalizeWords(previous.text).join(' ');
+  if (repeatsPrevious || hasRepeatedPhrase(words)) flags.push('repetition');
+
+  if (noSpeech > NO_SPEECH_THRESHOLD && words.length > 0) flags.push('silence');
+
+  return { score, level: toLevel(score), flags };
+}
+
+export function analyzeConfidence(segments: TranscriptionSegment[]): Map<number, SegmentConfidence> {
+  return new Map(segments.map((segment, index) => [
+    segment.id,
+    getSegmentConfidence(segment, segments[index - 1]),
+  ]));
+}
+
+export const isSuspicious = (confidence?: SegmentConfidence): boolean =>
+  !!confidence && (confidence.level === 'low' || confidence.flags.length > 0);
@@ -0,0 +1,100 @@
+// Promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'turkish-transcription';
+const DB_VERSION = 3;
+
+export type StoreName = 'tasks' | 'history' | 'evaluations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each version step only adds what that version introduced
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number): void => {
+  if (oldVersion < 1) {
+    const tasks = db.createObjectStore('tasks', { keyPath: 'taskId' });
+    tasks.createIndex('updatedAt', 'updatedAt');
+  }
+
+  if (oldVersion < 2) {
+    const history = db.createObjectStore('history', { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  }
+
+  if (oldVersion < 3) {
+    const evaluations = db.createObjectStore('evaluations', { keyPath: 'id' });
+    evaluations.createIndex('createdAt', 'createdAt');
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      let blocked = false;
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after the wait was given up; the next call opens a fresh connection
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade; the next call here reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // Another tab still has an older version open; without this the open would hang until it closes
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error('Database upgrade blocked by another open tab'));
+      };
+    });
+
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(run(transaction.objectStore(storeName)));
+};
+
+export function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export function getRecord<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function putRecord<T>(storeName: StoreName, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value));
+}
+
+export async function deleteRecord(storeName: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { alignSequences, diffWords, editDistance, errorRate } from './diff';
+
+// Textbook full-table Levenshtein distance to check the faster versions against
+const referenceDistance = (a: string[], b: string[]): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Deterministic so a failure can be reproduced
+const randomSequences = (count: number) => {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  const sequence = (length: number) => Array.from({ length }, () => 'abcd'[Math.floor(random() * 4)]);
+  return Array.from({ length: count }, () => {
+    const a = sequence(Math.floor(random() * 60));
+    // Mostly small edits of a, sometimes an unrelated sequence
+    const b = random() < 0.2
+      ? sequence(Math.floor(random() * 60))
+      : a.flatMap(item => {
+        const roll = random();
+        if (roll < 0.05) return [];
+        if (roll < 0.1) return ['x'];
+        if (roll < 0.15) return [item, 'y'];
+        return [item];
+      });
+    return [a, b] as const;
+  });
+};
+
+describe('editDistance', () => {
+  it('matches the full table distance', () => {
+    for (const [a, b] of randomSequences(500)) {
+      assert.equal(editDistance(a, b), referenceDistance(a, b), `${a.join('')} / ${b.join('')}`);
+    }
+  });
+
+  it('matches the number of edits in the alignment', () => {
+    for (const [a, b] of randomSequences(200)) {
+      assert.equal(editDistance(a, b), alignSequences(a, b).filter(op => op !== 'equal').length);
+    }
+  });
+
+  it('handles empty and identical inputs', () => {
+    assert.equal(editDistance([], []), 0);
+    assert.equal(editDistance([], ['a', 'b']), 2);
+    assert.equal(editDistance(['a', 'b'], []), 2);
+    assert.equal(editDistance(['a', 'b'], ['a', 'b']), 0);
+  });
+
+  it('stays exact when the distance is far outside the first band', () => {
+    const a = Array.from({ length: 400 }, (_, i) => String(i % 7));
+    const b = Array.from({ length: 380 }, (_, i) => String(i % 5));
+    assert.equal(editDistance(a, b), referenceDistance(a, b));
+  });
+});
+
+describe('diffWords', () => {
+  it('ignores case and punctuation and counts each kind of error', () => {
+    const diff = diffWords("İstanbul'a, bugün gittik.", 'istanbula dün gittik ve döndük');
+    assert.deepEqual(
+      { substitutions: diff.substitutions, deletions: diff.deletions, insertions: diff.insertions },
+      { substitutions: 1, deletions: 0, insertions: 2 }
+    );
+    assert.equal(errorRate(diff), 1);
+  });
+});
@@ -0,0 +1,249 @@
+// Word-level alignment of two transcripts: minimum edit distance with a backtrace
+
+import { DiffOp, WordDiff, WordDiffEntry } from './types';
+
+// Above this many DP cells the full move table is not kept; Hirschberg's split bounds memory instead
+const MAX_CELLS = 16_000_000;
+
+const MATCH = 0;
+const DELETE = 1;
+const INSERT = 2;
+
+// Case and punctuation do not count as differences: "İstanbul'a," equals "istanbula"
+export const normalizeWord = (word: string): string =>
+  word.toLocaleLowerCase('tr-TR').replace(/[^\p{L}\p{N}]+/gu, '');
+
+interface Token {
+  text: string;
+  key: string;
+}
+
+const tokenize = (text: string, normalize: (word: string) => string): Token[] =>
+  text
+    .split(/\s+/)
+    .map(word => ({ text: word, key: normalize(word) }))
+    .filter(token => token.key.length > 0);
+
+const alignRange = (reference: string[], hypothesis: string[], ops: DiffOp[]): void => {
+  const rows = reference.length;
+  const width = hypothesis.length + 1;
+  const moves = new Uint8Array((rows + 1) * width);
+  let previous = new Uint32Array(width);
+  let current = new Uint32Array(width);
+
+  for (let j = 0; j < width; j++) {
+    previous[j] = j;
+    moves[j] = INSERT;
+  }
+
+  for (let i = 1; i <= rows; i++) {
+    current[0] = i;
+    moves[i * width] = DELETE;
+    for (let j = 1; j < width; j++) {
+      const substitution = reference[i - 1] !== hypothesis[j - 1];
+      let best = previous[j - 1] + (substitution ? 1 : 0);
+      let move = MATCH;
+      // On a tie, skipping a word instead of substituting lets the next words line up
+      if (previous[j] + 1 < best || (substitution && previous[j] + 1 === best)) {
+        best = previous[j] + 1;
+        move = DELETE;
+      }
+      if (current[j - 1] + 1 < best || (substitution && current[j - 1] + 1 === best)) {
+        best = current[j - 1] + 1;
+        move = INSERT;
+      }
+      current[j] = best;
+      moves[i * width + j] = move;
+    }
+    [previous, current] = [current, previous];
+  }
+
+  const backtrace: DiffOp[] = [];
+  let i = rows;
+  let j = width - 1;
+  while (i > 0 || j > 0) {
+    const move = moves[i * width + j];
+    if (move === MATCH) {
+      backtrace.push(reference[i - 1] === hypothesis[j - 1] ? 'equal' : 'substitute');
+      i--;
+      j--;
+    } else if (move === DELETE) {
+      backtrace.push('delete');
+      i--;
+    } else {
+      backtrace.push('insert');
+      j--;
+    }
+  }
+  for (let k = backtrace.length - 1; k >= 0; k--) ops.push(backtrace[k]);
+};
+
+// Last row of the edit distance table for reference[rFrom, rTo) against hypothesis[hFrom, hTo);
+// with reverse set both are read back to front, giving the costs of aligning suffixes
+const lastRow = (
+  reference: string[], rFrom: number, rTo: number,
+  hypothesis: string[], hFrom: number, hTo: number,
+  reverse: boolean
+): Uint32Array => {
+  const width = hTo - hFrom + 1;
+  let previous = new Uint32Array(width);
+  let current = new Uint32Array(width);
+  for (let j = 0; j < width; j++) previous[j] = j;
+
+  for (let i = 1; i <= rTo - rFrom; i++) {
+    const word = reference[reverse ? rTo - i : rFrom + i - 1];
+    current[0] = i;
+    for (let j = 1; j < width; j++) {
+      const other = hypothesis[reverse ? hTo - j : hFrom + j - 1];
+      current[j] = Math.min(previous[j - 1] + (word === other ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous;
+};
+
+// Hirschberg: split the reference in half, find where an optimal alignment crosses that
+// row from the forward and backward costs, and align both halves on their own
+const alignSplit = (
+  reference: string[], rFrom: number, rTo: number,
+  hypothesis: string[], hFrom: number, hTo: number,
+  ops: DiffOp[]
+): void => {
+  const rows = rTo - rFrom;
+  const columns = hTo - hFrom;
+  if (rows < 2 || (rows + 1) * (columns + 1) <= MAX_CELLS) {
+    alignRange(reference.slice(rFrom, rTo), hypothesis.slice(hFrom, hTo), ops);
+    return;
+  }
+
+  const middle = rFrom + Math.floor(rows / 2);
+  const forward = lastRow(reference, rFrom, middle, hypothesis, hFrom, hTo, false);
+  const backward = lastRow(reference, middle, rTo, hypothesis, hFrom, hTo, true);
+  let split = 0;
+  let best = Infinity;
+  for (let j = 0; j <= columns; j++) {
+    const cost = forward[j] + backward[columns - j];
+    if (cost < best) {
+      best = cost;
+      split = j;
+    }
+  }
+
+  alignSplit(reference, rFrom, middle, hypothesis, hFrom, hFrom + split, ops);
+  alignSplit(reference, middle, rTo, hypothesis, hFrom + split, hTo, ops);
+};
+
+// Edit operations turning reference into hypothesis, with the minimum number of edits.
+// Memory stays linear for long inputs; the shared start and end are matched up front.
+export function alignSequences(reference: string[], hypothesis: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < reference.length && prefix < hypothesis.length && reference[prefix] === hypothesis[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < reference.length - prefix &&
+    suffix < hypothesis.length - prefix &&
+    reference[reference.length - 1 - suffix] === hypothesis[hypothesis.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: DiffOp[] = new Array<DiffOp>(prefix).fill('equal');
+  alignSplit(reference, prefix, reference.length - suffix, hypothesis, prefix, hypothesis.length - suffix, ops);
+  for (let k = 0; k < suffix; k++) ops.push('equal');
+  return ops;
+}
+
+// Distance within `band` of the diagonal; cells outside it count as unreachable
+const bandedDistance = (reference: string[], hypothesis: string[], band: number): number => {
+  const columns = hypothesis.length;
+  const unreachable = 0x3fffffff;
+  let previous = new Uint32Array(columns + 1).fill(unreachable);
+  let current = new Uint32Array(columns + 1).fill(unreachable);
+  for (let j = 0; j <= Math.min(columns, band); j++) previous[j] = j;
+
+  for (let i = 1; i <= reference.length; i++) {
+    const from = Math.max(1, i - band);
+    const to = Math.min(columns, i + band);
+    current[from - 1] = from === 1 && i <= band ? i : unreachable;
+    const item = reference[i - 1];
+    for (let j = from; j <= to; j++) {
+      current[j] = Math.min(previous[j - 1] + (item === hypothesis[j - 1] ? 0 : 1), previous[j] + 1, current[j - 1] + 1);
+    }
+    if (to < columns) current[to + 1] = unreachable;
+    [previous, current] = [current, previous];
+  }
+  return previous[columns];
+};
+
+// Number of edits only, without the alignment. An alignment with d edits never leaves the
+// band of width d around the diagonal, so the band doubles until the distance fits inside it:
+// close texts cost O(n·d) instead of O(n·m).
+export function editDistance(reference: string[], hypothesis: string[]): number {
+  let start = 0;
+  while (start < reference.length && start < hypothesis.length && reference[start] === hypothesis[start]) start++;
+  let referenceEnd = reference.length;
+  let hypothesisEnd = hypothesis.length;
+  while (referenceEnd > start && hypothesisEnd > start && reference[referenceEnd - 1] === hypothesis[hypothesisEnd - 1]) {
+    referenceEnd--;
+    hypothesisEnd--;
+  }
+
+  const rest = reference.slice(start, referenceEnd);
+  const other = hypothesis.slice(start, hypothesisEnd);
+  if (rest.length === 0 || other.length === 0) return rest.length + other.length;
+
+  let band = Math.max(Math.abs(rest.length - other.length), 16);
+  for (;;) {
+    const distance = bandedDistance(rest, other, band);
+    if (distance <= band) return distance;
+    band *= 2;
+  }
+}
+
+export function diffWords(
+  reference: string,
+  hypothesis: string,
+  normalize: (word: string) => string = normalizeWord
+): WordDiff {
+  const referenceTokens = tokenize(reference, normalize);
+  const hypothesisTokens = tokenize(hypothesis, normalize);
+  const ops = alignSequences(
+    referenceTokens.map(token => token.key),
+    hypothesisTokens.map(token => token.key)
+  );
+
+  const entries: WordDiffEntry[] = [];
+  const counts = { substitutions: 0, deletions: 0, insertions: 0 };
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    switch (op) {
+      case 'equal':
+        entries.push({ op, reference: referenceTokens[i++].text, hypothesis: hypothesisTokens[j++].text });
+        break;
+      case 'substitute':
+        counts.substitutions++;
+        entries.push({ op, reference: referenceTokens[i++].text, hypothesis: hypothesisTokens[j++].text });
+        break;
+      case 'delete':
+        counts.deletions++;
+        entries.push({ op, reference: referenceTokens[i++].text });
+        break;
+      case 'insert':
+        counts.insertions++;
+        entries.push({ op, hypothesis: hypothesisTokens[j++].text });
+        break;
+    }
+  }
+
+  return { entries, ...counts, referenceLength: referenceTokens.length };
+}
+
+// (S + D + I) / N; an empty reference is only matched by an empty hypothesis
+export function errorRate(diff: Pick<WordDiff, 'substitutions' | 'deletions' | 'insertions' | 'referenceLength'>): number {
+  const errors = diff.substitutions + diff.deletions + diff.insertions;
+  if (diff.referenceLength === 0) return errors > 0 ? 1 : 0;
+  return errors / diff.referenceLength;
+}
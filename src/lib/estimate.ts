@@ -0,0 +1,119 @@
+// Processing time estimates per model and a budget-aware model suggestion
+//
+// Real-time factors (processing seconds per second of audio) come from the user's own
+// completed runs when there are any; otherwise from rough defaults for CPU or GPU, scaled
+// by how much faster or slower this machine has been than those defaults on other models.
+
+import { MODEL_SIZES, compareModelCost, getModelFamily } from './models';
+import { HealthStatus, HistoryEntry, KnownModelSize, ModelEstimate, ModelSize } from './types';
+
+const BUDGET_STORAGE_KEY = 'transcription:time-budget';
+export const DEFAULT_BUDGET_MINUTES = 10;
+
+// faster-whisper on a mid-range GPU and a 4-core CPU; other models take their family's value
+const DEFAULT_REAL_TIME_FACTORS: Record<'gpu' | 'cpu', Record<KnownModelSize, number>> = {
+  gpu: { tiny: 0.02, base: 0.03, small: 0.06, medium: 0.12, large: 0.2 },
+  cpu: { tiny: 0.1, base: 0.2, small: 0.6, medium: 1.5, large: 3 },
+};
+
+// Only the most recent runs per model count, since hardware and server settings change
+const MAX_SAMPLES = 10;
+
+// Without a file duration, suggest the largest model that runs at least this much faster than real time
+const MAX_SUGGESTED_REAL_TIME_FACTOR = 0.5;
+
+// Models of no recognizable size are assumed to be as slow as large
+const defaultRealTimeFactor = (model: ModelSize, gpu: boolean): number =>
+  DEFAULT_REAL_TIME_FACTORS[gpu ? 'gpu' : 'cpu'][getModelFamily(model) ?? 'large'];
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Runs on the other kind of device would skew the numbers; runs without a device are assumed to match
+const sameDevice = (entry: HistoryEntry, gpu: boolean): boolean =>
+  !entry.result.device || entry.result.device === 'auto' || (entry.result.device === 'cuda') === gpu;
+
+export function measureRealTimeFactors(
+  history: HistoryEntry[],
+  gpu: boolean
+): Partial<Record<ModelSize, { realTimeFactor: number; samples: number }>> {
+  const byModel = new Map<ModelSize, number[]>();
+
+  [...history]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .forEach(entry => {
+      const duration = entry.duration ?? entry.result.duration;
+      const time = entry.result.processing_time;
+      if (!entry.model || !duration || !time || !sameDevice(entry, gpu)) return;
+
+      const samples = byModel.get(entry.model) ?? [];
+      if (samples.length < MAX_SAMPLES) samples.push(time / duration);
+      byModel.set(entry.model, samples);
+    });
+
+  return Object.fromEntries(
+    Array.from(byModel, ([model, samples]) => [model, { realTimeFactor: median(samples), samples: samples.length }])
+  );
+}
+
+export function estimateModelTimes(
+  duration: number | undefined,
+  health: HealthStatus | null | undefined,
+  history: HistoryEntry[],
+  models: ModelSize[] = MODEL_SIZES
+): Record<ModelSize, ModelEstimate> {
+  const gpu = !!health?.gpu_available;
+  const measured = measureRealTimeFactors(history, gpu);
+
+  // How this machine compares to the defaults, judged by every model it has actually run
+  const ratios = Object.entries(measured)
+    .map(([model, measurement]) => measurement!.realTimeFactor / defaultRealTimeFactor(model, gpu));
+  const machineFactor = ratios.length ? median(ratios) : 1;
+
+  return Object.fromEntries(models.map(model => {
+    const measurement = measured[model];
+    const realTimeFactor = measurement?.realTimeFactor ?? defaultRealTimeFactor(model, gpu) * machineFactor;
+    const estimate: ModelEstimate = {
+      realTimeFactor,
+      seconds: duration ? duration * realTimeFactor : undefined,
+      source: measurement ? 'measured' : ratios.length ? 'scaled' : 'default',
+      samples: measurement?.samples ?? 0,
+    };
+    return [model, estimate];
+  })) as Record<ModelSize, ModelEstimate>;
+}
+
+// The largest model that fits the budget, or the cheapest one when nothing does
+export function suggestModel(
+  estimates: Record<ModelSize, ModelEstimate>,
+  budgetSeconds?: number
+): ModelSize | undefined {
+  const fits = (estimate: ModelEstimate) =>
+    estimate.seconds !== undefined && budgetSeconds
+      ? estimate.seconds <= budgetSeconds
+      : estimate.realTimeFactor <= MAX_SUGGESTED_REAL_TIME_FACTOR;
+
+  const models = Object.keys(estimates).sort(compareModelCost);
+  const fitting = models.filter(model => fits(estimates[model]));
+  return fitting.length ? fitting[fitting.length - 1] : models[0];
+}
+
+export function loadBudgetMinutes(): number {
+  try {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : DEFAULT_BUDGET_MINUTES;
+  } catch {
+    return DEFAULT_BUDGET_MINUTES;
+  }
+}
+
+export function saveBudgetMinutes(minutes: number): void {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(minutes));
+  } catch {
+    // Storage may be unavailable (private mode); the budget then lasts for the session only
+  }
+}
@@ -0,0 +1,123 @@
+// Word and character error rates against hand-corrected reference transcripts, stored in IndexedDB
+
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { diffWords, editDistance, errorRate } from './diff';
+import { escapeCsv } from './export';
+import { normalizeForScoring } from './normalize';
+import { EvaluationEntry, EvaluationMetrics, WordDiff } from './types';
+
+// Both texts are normalized first, so the diff shows normalized words rather than the originals
+export function diffForScoring(reference: string, hypothesis: string): WordDiff {
+  return diffWords(normalizeForScoring(reference), normalizeForScoring(hypothesis));
+}
+
+const countCharacterErrors = (reference: string, hypothesis: string): number =>
+  editDistance(Array.from(reference), Array.from(hypothesis));
+
+// Long transcripts take seconds at the character level, so the count runs in a worker when there is one
+const countCharacterErrorsOffThread = (reference: string, hypothesis: string): Promise<number> => {
+  if (typeof Worker === 'undefined') return Promise.resolve(countCharacterErrors(reference, hypothesis));
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./characterErrors.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<number>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Character error worker failed'));
+    };
+    worker.postMessage({ reference, hypothesis });
+  });
+};
+
+export async function evaluateTranscript(
+  reference: string,
+  hypothesis: string
+): Promise<{ metrics: EvaluationMetrics; diff: WordDiff }> {
+  const normalizedReference = normalizeForScoring(reference);
+  const normalizedHypothesis = normalizeForScoring(hypothesis);
+  const diff = diffWords(normalizedReference, normalizedHypothesis);
+
+  const referenceCharacters = Array.from(normalizedReference).length;
+  const characterErrors = await countCharacterErrorsOffThread(normalizedReference, normalizedHypothesis);
+
+  return {
+    diff,
+    metrics: {
+      wer: errorRate(diff),
+      cer: referenceCharacters > 0
+        ? characterErrors / referenceCharacters
+        : characterErrors > 0 ? 1 : 0,
+      substitutions: diff.substitutions,
+      deletions: diff.deletions,
+      insertions: diff.insertions,
+      referenceWords: diff.referenceLength,
+      hypothesisWords: diff.referenceLength - diff.deletions + diff.insertions,
+      referenceCharacters,
+      characterErrors,
+    },
+  };
+}
+
+// Errors summed over the whole set, so long files weigh more than short ones
+export function pooledErrorRates(entries: EvaluationEntry[]): { wer: number; cer: number } {
+  const sum = (pick: (metrics: EvaluationMetrics) => number) =>
+    entries.reduce((total, entry) => total + pick(entry.metrics), 0);
+
+  const words = sum(m => m.referenceWords);
+  const characters = sum(m => m.referenceCharacters);
+  return {
+    wer: words > 0 ? sum(m => m.substitutions + m.deletions + m.insertions) / words : 0,
+    cer: characters > 0 ? sum(m => m.characterErrors) / characters : 0,
+  };
+}
+
+export function evaluationsToCsv(entries: EvaluationEntry[]): string {
+  const header = 'filename,model,reference,reference_words,hypothesis_words,substitutions,deletions,insertions,wer,cer,evaluated_at';
+  const rows = entries.map(({ filename, model, referenceName, metrics, createdAt }) => [
+    filename,
+    model ?? '',
+    referenceName,
+    metrics.referenceWords,
+    metrics.hypothesisWords,
+    metrics.substitutions,
+    metrics.deletions,
+    metrics.insertions,
+    metrics.wer.toFixed(4),
+    metrics.cer.toFixed(4),
+    new Date(createdAt).toISOString(),
+  ].map(escapeCsv).join(','));
+
+  const pooled = pooledErrorRates(entries);
+  const sum = (pick: (metrics: EvaluationMetrics) => number) =>
+    entries.reduce((total, entry) => total + pick(entry.metrics), 0);
+  const total = [
+    'TOTAL',
+    '',
+    '',
+    sum(m => m.referenceWords),
+    sum(m => m.hypothesisWords),
+    sum(m => m.substitutions),
+    sum(m => m.deletions),
+    sum(m => m.insertions),
+    pooled.wer.toFixed(4),
+    pooled.cer.toFixed(4),
+    '',
+  ].join(',');
+  return '\uFEFF' + [header, ...rows, total].join('\r\n') + '\r\n';
+}
+
+export async function saveEvaluation(entry: EvaluationEntry): Promise<void> {
+  await putRecord('evaluations', entry);
+}
+
+export async function listEvaluations(): Promise<EvaluationEntry[]> {
+  const entries = await getAllRecords<EvaluationEntry>('evaluations');
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteEvaluation(id: string): Promise<void> {
+  await deleteRecord('evaluations', id);
+}
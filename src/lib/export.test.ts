@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { escapeCsv, formatTimestamp, toAss, toCsv, toSrt, toTtml, toVtt, toVttWords } from './export';
+import { TranscriptionSegment } from './types';
+
+const segment = (overrides: Partial<TranscriptionSegment> = {}): TranscriptionSegment => ({
+  id: 0,
+  start: 0,
+  end: 1,
+  text: 'Merhaba',
+  ...overrides,
+});
+
+describe('formatTimestamp', () => {
+  it('pads hours, minutes, seconds and milliseconds', () => {
+    assert.equal(formatTimestamp(3723.004), '01:02:03.004');
+    assert.equal(formatTimestamp(3723.004, ','), '01:02:03,004');
+  });
+
+  it('rounds to the nearest millisecond without overflowing', () => {
+    assert.equal(formatTimestamp(59.9996), '00:01:00.000');
+    assert.equal(formatTimestamp(1.0004), '00:00:01.000');
+  });
+
+  it('clamps negative times to zero', () => {
+    assert.equal(formatTimestamp(-2), '00:00:00.000');
+  });
+});
+
+describe('toSrt', () => {
+  it('numbers cues and uses a comma before milliseconds', () => {
+    const srt = toSrt([segment({ start: 1.5, end: 2.25, text: ' Merhaba ' })]);
+    assert.equal(srt, '1\n00:00:01,500 --> 00:00:02,250\nMerhaba\n');
+  });
+
+  it('skips empty cues and labels only speaker changes', () => {
+    const srt = toSrt([
+      segment({ id: 0, speaker: 'Ayşe', text: 'Bir' }),
+      segment({ id: 1, text: '   ' }),
+      segment({ id: 2, speaker: 'Ayşe', text: 'İki' }),
+      segment({ id: 3, speaker: 'Mehmet', text: 'Üç' }),
+    ]);
+    const cues = srt.split('\n\n');
+    assert.equal(cues.length, 3);
+    assert.match(cues[0], /^1\n.*\nAyşe: Bir$/);
+    assert.match(cues[1], /^2\n.*\nİki$/);
+    assert.match(cues[2], /^3\n.*\nMehmet: Üç\n$/);
+  });
+});
+
+describe('toVtt', () => {
+  it('starts with the header and uses a dot before milliseconds', () => {
+    assert.equal(
+      toVtt([segment({ start: 61, end: 62.5 })]),
+      'WEBVTT\n\n00:01:01.000 --> 00:01:02.500\nMerhaba\n'
+    );
+  });
+
+  it('escapes markup and timing arrows in cue text', () => {
+    const vtt = toVtt([segment({ text: 'a < b & c --> d' })]);
+    assert.ok(vtt.endsWith('\na &lt; b &amp; c -> d\n'));
+  });
+
+  it('writes speakers as voice tags', () => {
+    assert.ok(toVtt([segment({ speaker: 'Ayşe' })]).endsWith('\n<v Ayşe>Merhaba\n'));
+  });
+
+  it('escapes and folds speaker names inside voice tags', () => {
+    const vtt = toVtt([segment({ speaker: ' A & B\n<C> --> D ' })]);
+    assert.ok(vtt.endsWith('\n<v A &amp; B &lt;C&gt; -&gt; D>Merhaba\n'));
+  });
+});
+
+describe('toVttWords', () => {
+  it('adds inline timestamps after the first word', () => {
+    const vtt = toVttWords([segment({
+      start: 0,
+      end: 2,
+      text: 'bir iki',
+      words: [
+        { word: 'bir', start: 0, end: 0.5, probability: 1 },
+        { word: 'iki', start: 1.25, end: 2, probability: 1 },
+      ],
+    })]);
+    assert.ok(vtt.endsWith('\n<c>bir</c> <00:00:01.250><c>iki</c>\n'));
+  });
+
+  it('falls back to plain escaped text when words do not line up', () => {
+    const vtt = toVttWords([segment({ text: 'a<b c', words: [] })]);
+    assert.ok(vtt.endsWith('\na&lt;b c\n'));
+  });
+});
+
+describe('toTtml', () => {
+  it('escapes XML and turns newlines into line breaks', () => {
+    const ttml = toTtml([segment({ start: 1, end: 2, speaker: 'A&B', text: '"x" < y\n\'z\'' })], 'tr');
+    assert.ok(ttml.includes(
+      '<p begin="00:00:01.000" end="00:00:02.000">A&amp;B: &quot;x&quot; &lt; y<br/>&apos;z&apos;</p>'
+    ));
+    assert.ok(ttml.includes('xml:lang="tr"'));
+  });
+});
+
+describe('toAss', () => {
+  it('uses centiseconds and an unpadded hour', () => {
+    const ass = toAss([segment({ start: 3723.456, end: 3724 })]);
+    assert.ok(ass.includes('Dialogue: 0,1:02:03.45,1:02:04.00,Default,,0,0,0,,Merhaba'));
+  });
+
+  it('escapes override braces, newlines and commas in the speaker name', () => {
+    const ass = toAss([segment({ speaker: 'Ayşe, Ali', text: '{\\b1}kalın\nikinci' })]);
+    assert.ok(ass.includes(',Default,Ayşe  Ali,0,0,0,,(\\b1)kalın\\Nikinci'));
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a BOM, CRLF rows and fixed-precision times', () => {
+    assert.equal(
+      toCsv([segment({ start: 0.5, end: 1.25 })]),
+      '\uFEFFid,start,end,text\r\n1,0.500,1.250,Merhaba\r\n'
+    );
+  });
+
+  it('adds a speaker column only when a segment has a speaker', () => {
+    const csv = toCsv([segment({ speaker: 'Ayşe' }), segment({ id: 1 })]);
+    assert.deepEqual(csv.split('\r\n').slice(0, 3), [
+      '\uFEFFid,start,end,speaker,text',
+      '1,0.000,1.000,Ayşe,Merhaba',
+      '2,0.000,1.000,,Merhaba',
+    ]);
+  });
+
+  it('quotes fields with commas, quotes or newlines', () => {
+    assert.equal(escapeCsv('plain'), 'plain');
+    assert.equal(escapeCsv('a,b'), '"a,b"');
+    assert.equal(escapeCsv('say "hi"'), '"say ""hi"""');
+    assert.equal(escapeCsv('line\nbreak'), '"line\nbreak"');
+    assert.equal(escapeCsv(3), '3');
+  });
+});
@@ -0,0 +1,285 @@
+// Client-side transcript exports built straight from segments
+
+import { formatSubtitles, SUBTITLE_PROFILES } from './subtitles';
+import { DownloadFormat, ExportOptions, TranscriptionResponse, TranscriptionSegment } from './types';
+
+interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<DownloadFormat, ExportFormatInfo> = {
+  txt: { label: 'Metin (.txt)', extension: 'txt', mimeType: 'text/plain;charset=utf-8' },
+  'txt-timestamps': { label: 'Zaman damgalı metin (.txt)', extension: 'txt', mimeType: 'text/plain;charset=utf-8' },
+  srt: { label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip;charset=utf-8' },
+  vtt: { label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt;charset=utf-8' },
+  'vtt-words': { label: 'WebVTT, kelime zamanlı (.vtt)', extension: 'vtt', mimeType: 'text/vtt;charset=utf-8' },
+  ttml: { label: 'TTML/DFXP (.ttml)', extension: 'ttml', mimeType: 'application/ttml+xml;charset=utf-8' },
+  ass: { label: 'ASS/SSA (.ass)', extension: 'ass', mimeType: 'text/x-ssa;charset=utf-8' },
+  csv: { label: 'CSV (.csv)', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  md: { label: 'Markdown (.md)', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  json: { label: 'JSON (.json)', extension: 'json', mimeType: 'application/json;charset=utf-8' },
+};
+
+// Time formatting
+
+const pad = (value: number, length = 2): string => value.toString().padStart(length, '0');
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    hours: Math.floor(totalMs / 3_600_000),
+    minutes: Math.floor((totalMs % 3_600_000) / 60_000),
+    seconds: Math.floor((totalMs % 60_000) / 1000),
+    milliseconds: totalMs % 1000,
+  };
+};
+
+// 00:00:01,000 for SRT, 00:00:01.000 for WebVTT and TTML
+export function formatTimestamp(seconds: number, separator: ',' | '.' = '.'): string {
+  const time = splitTime(seconds);
+  return `${pad(time.hours)}:${pad(time.minutes)}:${pad(time.seconds)}${separator}${pad(time.milliseconds, 3)}`;
+}
+
+// ASS counts centiseconds and does not pad the hour
+const formatAssTime = (seconds: number): string => {
+  const time = splitTime(seconds);
+  return `${time.hours}:${pad(time.minutes)}:${pad(time.seconds)}.${pad(Math.floor(time.milliseconds / 10))}`;
+};
+
+const formatShortTime = (seconds: number): string => {
+  const time = splitTime(seconds);
+  const clock = `${pad(time.minutes)}:${pad(time.seconds)}`;
+  return time.hours > 0 ? `${pad(time.hours)}:${clock}` : clock;
+};
+
+// Escaping
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Braces would start an override block, and newlines are written as \N
+const escapeAss = (text: string): string =>
+  text.replace(/\{/g, '(').replace(/\}/g, ')').replace(/\r?\n/g, '\\N');
+
+// Arrows inside a cue would be read as timing lines
+const escapeVtt = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '->');
+
+const cueText = (segment: TranscriptionSegment): string => segment.text.trim();
+
+const nonEmpty = (segments: TranscriptionSegment[]): TranscriptionSegment[] =>
+  segments.filter((segment) => cueText(segment).length > 0);
+
+// "Ayşe: " when the speaker changes, so consecutive cues are not all labelled
+const speakerPrefix = (segment: TranscriptionSegment, previous?: TranscriptionSegment): string =>
+  segment.speaker && segment.speaker !== previous?.speaker ? `${segment.speaker}: ` : '';
+
+// The voice annotation is closed by ">" and cannot span lines, so the name is escaped and folded
+const voiceTag = (segment: TranscriptionSegment): string =>
+  segment.speaker
+    ? `<v ${escapeVtt(segment.speaker.replace(/\s+/g, ' ').trim()).replace(/>/g, '&gt;')}>`
+    : '';
+
+// Renderers
+
+export function toSrt(segments: TranscriptionSegment[]): string {
+  return nonEmpty(segments)
+    .map((segment, index, cues) =>
+      `${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n` +
+      `${speakerPrefix(segment, cues[index - 1])}${cueText(segment)}\n`
+    )
+    .join('\n');
+}
+
+export function toVtt(segments: TranscriptionSegment[]): string {
+  const cues = nonEmpty(segments).map((segment) =>
+    `${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}\n${voiceTag(segment)}${escapeVtt(cueText(segment))}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+// Karaoke-style cues: every word after the first carries its start time inline
+export function toVttWords(segments: TranscriptionSegment[]): string {
+  const cues = nonEmpty(segments).map((segment) => {
+    const lines = cueText(segment).split('\n').map((line) => line.split(/\s+/).filter(Boolean));
+    const wordCount = lines.reduce((total, line) => total + line.length, 0);
+    const words = segment.words;
+
+    let text = escapeVtt(cueText(segment));
+    if (words && words.length === wordCount) {
+      let index = 0;
+      text = lines
+        .map((line) => line.map((token) => {
+          const word = words[index++];
+          const escaped = `<c>${escapeVtt(token)}</c>`;
+          return index === 1 || word.start <= segment.start
+            ? escaped
+            : `<${formatTimestamp(Math.min(word.start, segment.end))}>${escaped}`;
+        }).join(' '))
+        .join('\n');
+    }
+
+    return `${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}\n${voiceTag(segment)}${text}\n`;
+  });
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toTtml(segments: TranscriptionSegment[], language = 'tr'): string {
+  const paragraphs = nonEmpty(segments).map((segment, index, cues) => {
+    const text = speakerPrefix(segment, cues[index - 1]) + cueText(segment);
+    const lines = text.split('\n').map(escapeXml).join('<br/>');
+    return `      <p begin="${formatTimestamp(segment.start)}" end="${formatTimestamp(segment.end)}">${lines}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeXml(language)}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+export function toAss(segments: TranscriptionSegment[], title = 'Transcript'): string {
+  const events = nonEmpty(segments).map((segment) =>
+    // The Name field is comma-separated like the rest of the line
+    `Dialogue: 0,${formatAssTime(segment.start)},${formatAssTime(segment.end)},Default,${(segment.speaker ?? '').replace(/,/g, ' ')},0,0,0,,${escapeAss(cueText(segment))}`
+  );
+
+  return [
+    '[Script Info]',
+    `Title: ${title}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'PlayResX: 1920',
+    'PlayResY: 1080',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,56,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,60,60,50,162',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+}
+
+// The byte order mark makes spreadsheet apps read Turkish characters as UTF-8
+export function toCsv(segments: TranscriptionSegment[]): string {
+  const hasSpeakers = segments.some((segment) => segment.speaker);
+  const header = hasSpeakers ? 'id,start,end,speaker,text' : 'id,start,end,text';
+  const rows = segments.map((segment, index) => {
+    const fields = [index + 1, segment.start.toFixed(3), segment.end.toFixed(3)];
+    return [...fields, ...(hasSpeakers ? [segment.speaker ?? ''] : []), cueText(segment)].map(escapeCsv).join(',');
+  });
+  return '\uFEFF' + [header, ...rows].join('\r\n') + '\r\n';
+}
+
+export function toMarkdown(result: TranscriptionResponse, segments: TranscriptionSegment[]): string {
+  const details = [
+    result.language && `- **Dil:** ${result.language}`,
+    result.duration !== undefined && `- **Süre:** ${formatShortTime(result.duration)}`,
+    result.model_size && `- **Model:** ${result.model_size}`,
+  ].filter(Boolean);
+
+  const body = nonEmpty(segments).map((segment) =>
+    segment.speaker
+      ? `**[${formatShortTime(segment.start)}] ${segment.speaker}:** ${cueText(segment)}`
+      : `**[${formatShortTime(segment.start)}]** ${cueText(segment)}`
+  );
+
+  return [
+    '# Transcript',
+    '',
+    ...(details.length > 0 ? [...details, ''] : []),
+    ...body.flatMap((line) => [line, '']),
+  ].join('\n');
+}
+
+// Diarized transcripts become one paragraph per speaker turn
+export function toPlainText(result: TranscriptionResponse, segments: TranscriptionSegment[]): string {
+  const cues = nonEmpty(segments);
+
+  if (cues.some((segment) => segment.speaker)) {
+    const turns: string[] = [];
+    cues.forEach((segment, index) => {
+      const prefix = speakerPrefix(segment, cues[index - 1]);
+      if (prefix || turns.length === 0) turns.push(prefix + cueText(segment));
+      else turns[turns.length - 1] += ` ${cueText(segment)}`;
+    });
+    return `${turns.join('\n\n')}\n`;
+  }
+
+  if (result.text) return `${result.text.trim()}\n`;
+  return `${cues.map(cueText).join(' ')}\n`;
+}
+
+export function toTimestampedText(segments: TranscriptionSegment[]): string {
+  return nonEmpty(segments)
+    .map((segment) => {
+      const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+      return `[${formatTimestamp(segment.start)} - ${formatTimestamp(segment.end)}] ${speaker}${cueText(segment)}`;
+    })
+    .join('\n') + '\n';
+}
+
+// Formats whose cues can be re-segmented by a subtitle profile
+export const SUBTITLE_FORMATS: DownloadFormat[] = ['srt', 'vtt', 'vtt-words', 'ttml', 'ass'];
+
+export function renderTranscript(
+  result: TranscriptionResponse,
+  format: DownloadFormat,
+  options: ExportOptions = {}
+): string {
+  const segments = result.segments ?? [];
+  const cues = options.subtitleProfile
+    ? formatSubtitles(segments, SUBTITLE_PROFILES[options.subtitleProfile])
+    : segments;
+
+  switch (format) {
+    case 'srt': return toSrt(cues);
+    case 'vtt': return toVtt(cues);
+    case 'vtt-words': return toVttWords(cues);
+    case 'ttml': return toTtml(cues, result.language);
+    case 'ass': return toAss(cues);
+    case 'csv': return toCsv(segments);
+    case 'md': return toMarkdown(result, segments);
+    case 'json': return JSON.stringify(result, null, 2);
+    case 'txt-timestamps': return toTimestampedText(segments);
+    default: return toPlainText(result, segments);
+  }
+}
+
+export function exportTranscript(
+  result: TranscriptionResponse,
+  format: DownloadFormat,
+  options: ExportOptions = {}
+): Blob {
+  return new Blob([renderTranscript(result, format, options)], { type: EXPORT_FORMATS[format].mimeType });
+}
+
+// Name the export after the source file when it is known
+export function exportFilename(format: DownloadFormat, sourceName?: string): string {
+  const base = sourceName ? sourceName.replace(/\.[^.]+$/, '') : 'transcript';
+  const suffixes: Partial<Record<DownloadFormat, string>> = { 'txt-timestamps': '.timestamps', 'vtt-words': '.words' };
+  const suffix = suffixes[format] ?? '';
+  return `${base}${suffix}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,195 @@
+// Glossaries: term lists that feed initial_prompt and drive fuzzy spelling corrections
+
+import { Glossary, GlossarySuggestion, TranscriptionSegment } from './types';
+
+const STORAGE_KEY = 'transcription:glossaries';
+const ACTIVE_KEY = 'transcription:active-glossary';
+
+// Whisper keeps at most this many prompt tokens and drops the start of longer prompts
+export const PROMPT_TOKEN_BUDGET = 224;
+
+export interface GlossaryPrompt {
+  prompt: string;
+  includedTerms: number;
+  tokens: number;
+}
+
+// Letters and digits, allowing inner hyphens (COVID-19); apostrophe suffixes stay separate
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:-[\p{L}\p{N}]+)*/gu;
+
+export function loadGlossaries(): { glossaries: Glossary[]; activeId: string | null } {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return {
+      glossaries: stored ? JSON.parse(stored) : [],
+      activeId: localStorage.getItem(ACTIVE_KEY),
+    };
+  } catch {
+    return { glossaries: [], activeId: null };
+  }
+}
+
+export function saveGlossaries(glossaries: Glossary[], activeId: string | null): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(glossaries));
+    if (activeId) localStorage.setItem(ACTIVE_KEY, activeId);
+    else localStorage.removeItem(ACTIVE_KEY);
+  } catch {
+    // Storage may be unavailable (private mode); glossaries then last for the session only
+  }
+}
+
+// Byte-level BPE splits Turkish letters finely; about one token per three UTF-8 bytes
+export const estimateTokens = (text: string): number =>
+  Math.ceil(new TextEncoder().encode(text).length / 3);
+
+// Lower-case with Turkish rules and drop diacritics, so "Yilmaz" and "YILMAZ" both fold to "yilmaz"
+const foldText = (text: string): string =>
+  text.toLocaleLowerCase('tr-TR').replace(/ı/g, 'i').normalize('NFD').replace(/\p{M}/gu, '');
+
+// One term per line; commas and semicolons also separate terms. Duplicates are dropped.
+export function parseTerms(text: string): string[] {
+  const seen = new Set<string>();
+  return text
+    .split(/[\n,;]+/)
+    .map(term => term.trim().replace(/\s+/g, ' '))
+    .filter(term => {
+      const key = term.toLocaleLowerCase('tr-TR');
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Terms are added in list order until the budget is spent, so the most important go first
+export function buildGlossaryPrompt(terms: string[], basePrompt = ''): GlossaryPrompt {
+  const base = basePrompt.trim();
+  const render = (list: string[]) =>
+    [base, list.length > 0 ? `${list.join(', ')}.` : ''].filter(Boolean).join(' ');
+
+  const included: string[] = [];
+  for (const term of terms) {
+    if (estimateTokens(render([...included, term])) > PROMPT_TOKEN_BUDGET) break;
+    included.push(term);
+  }
+
+  const prompt = render(included);
+  return { prompt, includedTerms: included.length, tokens: estimateTokens(prompt) };
+}
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Short words only match exactly; otherwise almost every common word would be a near miss
+const allowedDistance = (length: number): number =>
+  length < 4 ? 0 : length <= 6 ? 1 : length <= 10 ? 2 : 3;
+
+// Lower-case terms take a capital when they start a sentence in the transcript
+const matchCase = (term: string, original: string): string => {
+  const isLowerTerm = term === term.toLocaleLowerCase('tr-TR');
+  const startsUpper = original[0] !== original[0].toLocaleLowerCase('tr-TR');
+  return isLowerTerm && startsUpper ? term[0].toLocaleUpperCase('tr-TR') + term.slice(1) : term;
+};
+
+export function findGlossarySuggestions(
+  segments: TranscriptionSegment[],
+  terms: string[]
+): GlossarySuggestion[] {
+  const entries = terms.map(term => ({ term, folded: foldText(term), wordCount: term.split(' ').length }));
+  if (entries.length === 0) return [];
+
+  const knownTerms = new Set(entries.map(entry => entry.folded));
+  const wordCounts = Array.from(new Set(entries.map(entry => entry.wordCount))).sort((a, b) => b - a);
+  const suggestions: GlossarySuggestion[] = [];
+
+  for (const segment of segments) {
+    const words = Array.from(segment.text.matchAll(WORD_PATTERN), match => ({
+      text: match[0],
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }));
+    const claimed = new Set<number>();
+
+    // Longer terms first so "Ayşe Yılmaz" wins over "Yılmaz" alone
+    for (const count of wordCounts) {
+      for (let i = 0; i + count <= words.length; i++) {
+        const indices = Array.from({ length: count }, (_, offset) => i + offset);
+        if (indices.some(index => claimed.has(index))) continue;
+
+        const start = words[i].start;
+        const end = words[i + count - 1].end;
+        const original = segment.text.slice(start, end);
+        // Multi-word terms must not span punctuation
+        if (count > 1 && !/^[\p{L}\p{N}\s-]+$/u.test(original)) continue;
+
+        const folded = foldText(original.replace(/\s+/g, ' '));
+        let best: { term: string; distance: number } | null = null;
+        for (const entry of entries) {
+          if (entry.wordCount !== count) continue;
+          const limit = allowedDistance(entry.folded.length);
+          if (Math.abs(entry.folded.length - folded.length) > limit) continue;
+          const distance = entry.folded === folded ? 0 : editDistance(entry.folded, folded);
+          if (distance <= limit && (!best || distance < best.distance)) {
+            best = { term: entry.term, distance };
+          }
+        }
+        if (!best) continue;
+
+        const replacement = matchCase(best.term, original);
+        // Words that already spell some glossary term are left alone
+        const alreadyCorrect = replacement === original ||
+          (best.distance > 0 && knownTerms.has(folded)) ||
+          (best.distance === 0 && replacement.toLocaleLowerCase('tr-TR') === original.toLocaleLowerCase('tr-TR') &&
+            best.term === best.term.toLocaleLowerCase('tr-TR'));
+
+        indices.forEach(index => claimed.add(index));
+        if (alreadyCorrect) continue;
+
+        suggestions.push({
+          id: `${segment.id}:${start}`,
+          segmentId: segment.id,
+          start,
+          end,
+          original,
+          replacement,
+        });
+      }
+    }
+  }
+
+  return suggestions.sort((a, b) => a.segmentId - b.segmentId || a.start - b.start);
+}
+
+// New text for each affected segment; later offsets are replaced first so earlier ones stay valid
+export function applySuggestions(
+  segments: TranscriptionSegment[],
+  suggestions: GlossarySuggestion[]
+): Map<number, string> {
+  const texts = new Map<number, string>();
+  const ordered = [...suggestions].sort((a, b) => b.start - a.start);
+
+  for (const suggestion of ordered) {
+    const text = texts.get(suggestion.segmentId) ??
+      segments.find(segment => segment.id === suggestion.segmentId)?.text;
+    if (text === undefined || text.slice(suggestion.start, suggestion.end) !== suggestion.original) continue;
+    texts.set(
+      suggestion.segmentId,
+      text.slice(0, suggestion.start) + suggestion.replacement + text.slice(suggestion.end)
+    );
+  }
+
+  return texts;
+}
@@ -0,0 +1,35 @@
+// Local library of finished transcriptions, stored in IndexedDB
+
+import { deleteRecord, getAllRecords, putRecord } from './db';
+import { HistoryEntry, TranscriptionResponse } from './types';
+
+const countWords = (text: string): number =>
+  text.split(/\s+/).filter(Boolean).length;
+
+export async function recordTranscription(
+  result: TranscriptionResponse,
+  filename: string,
+  duration?: number
+): Promise<void> {
+  const entry: HistoryEntry = {
+    id: result.task_id,
+    filename,
+    duration: duration ?? result.duration,
+    model: result.model_size,
+    language: result.language,
+    wordCount: result.word_count ?? countWords(result.text ?? ''),
+    createdAt: result.completed_at ? new Date(result.completed_at).getTime() : Date.now(),
+    result,
+  };
+
+  await putRecord('history', entry);
+}
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await getAllRecords<HistoryEntry>('history');
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await deleteRecord('history', id);
+}
@@ -0,0 +1,31 @@
+// Reading media metadata in the browser, before anything is uploaded
+
+// Give up on files the browser cannot decode instead of waiting forever
+const METADATA_TIMEOUT = 10000;
+
+// Duration in seconds, or undefined when the browser cannot read it
+export function readMediaDuration(file: File): Promise<number | undefined> {
+  if (typeof document === 'undefined') return Promise.resolve(undefined);
+
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const element = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      // Detach first: clearing the source fires another error on some browsers
+      element.onloadedmetadata = null;
+      element.onerror = null;
+      element.removeAttribute('src');
+      element.load();
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && Number.isFinite(duration) && duration > 0 ? duration : undefined);
+    };
+    const timer = setTimeout(() => finish(), METADATA_TIMEOUT);
+
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => finish(element.duration);
+    element.onerror = () => finish();
+    element.src = url;
+  });
+}
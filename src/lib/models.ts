@@ -0,0 +1,163 @@
+// Model registry: the server's model list merged with built-in descriptions of the Whisper sizes
+
+import { KnownModelSize, ModelDescriptor, ModelInfo, ModelSize } from './types';
+
+// Ordered from the cheapest to the most expensive to run
+export const MODEL_SIZES: KnownModelSize[] = ['tiny', 'base', 'small', 'medium', 'large'];
+
+type KnownModelDetails = Required<Pick<ModelInfo, 'name' | 'description' | 'speed' | 'quality' | 'size' | 'vram'>> & {
+  gradient: string;
+};
+
+export const KNOWN_MODELS: Record<KnownModelSize, KnownModelDetails> = {
+  tiny: {
+    name: 'Tiny',
+    description: 'En hızlı model, temel kalite',
+    speed: 'Çok Hızlı',
+    quality: 'Temel',
+    size: '~39 MB',
+    vram: '~1 GB',
+    gradient: 'from-green-500 to-emerald-500',
+  },
+  base: {
+    name: 'Base',
+    description: 'Hız ve kalite dengesi',
+    speed: 'Hızlı',
+    quality: 'İyi',
+    size: '~74 MB',
+    vram: '~1 GB',
+    gradient: 'from-blue-500 to-cyan-500',
+  },
+  small: {
+    name: 'Small',
+    description: 'Daha iyi kalite, makul hız',
+    speed: 'Orta',
+    quality: 'Yüksek',
+    size: '~244 MB',
+    vram: '~2 GB',
+    gradient: 'from-purple-500 to-violet-500',
+  },
+  medium: {
+    name: 'Medium',
+    description: 'Yüksek kalite, daha yavaş',
+    speed: 'Yavaş',
+    quality: 'Çok Yüksek',
+    size: '~769 MB',
+    vram: '~5 GB',
+    gradient: 'from-orange-500 to-red-500',
+  },
+  large: {
+    name: 'Large',
+    description: 'En yüksek kalite, en yavaş',
+    speed: 'Çok Yavaş',
+    quality: 'Mükemmel',
+    size: '~1550 MB',
+    vram: '~10 GB',
+    gradient: 'from-pink-500 to-rose-500',
+  },
+};
+
+// Gradient for models that do not resemble any built-in size
+export const UNKNOWN_MODEL_GRADIENT = 'from-slate-500 to-slate-600';
+
+const isKnownModel = (id: ModelSize): id is KnownModelSize =>
+  (MODEL_SIZES as string[]).includes(id);
+
+// "large-v3" and "whisper-medium-tr" behave like large and medium; turbo (large-v3-turbo)
+// decodes about as fast as medium, so it is costed like one
+export function getModelFamily(id: ModelSize): KnownModelSize | undefined {
+  const lower = id.toLowerCase();
+  if (isKnownModel(lower)) return lower;
+  if (lower.includes('turbo')) return 'medium';
+  return [...MODEL_SIZES].reverse().find(size => new RegExp(`(^|[^a-z])${size}([^a-z]|$)`).test(lower));
+}
+
+export const getModelName = (id: ModelSize): string =>
+  isKnownModel(id) ? KNOWN_MODELS[id].name : id;
+
+// Models of no recognizable size come after the known ones, since fine-tuned checkpoints are usually large
+const modelRank = (id: ModelSize): number => {
+  const family = getModelFamily(id);
+  return family ? MODEL_SIZES.indexOf(family) : MODEL_SIZES.length;
+};
+
+// Negative when a is cheaper than b
+export const compareModelCost = (a: ModelSize, b: ModelSize): number =>
+  modelRank(a) - modelRank(b) || a.localeCompare(b);
+
+export function describeModel(id: ModelSize, info?: Omit<ModelInfo, 'id'>): ModelDescriptor {
+  const family = getModelFamily(id);
+  const own = isKnownModel(id) ? KNOWN_MODELS[id] : undefined;
+  const base = family ? KNOWN_MODELS[family] : undefined;
+
+  return {
+    ...info,
+    id,
+    name: info?.name ?? own?.name ?? id,
+    description: info?.description ?? own?.description ??
+      (base ? `${base.name} boyutunda model` : 'Sunucudaki özel model'),
+    speed: info?.speed ?? base?.speed,
+    quality: info?.quality ?? base?.quality,
+    size: info?.size ?? base?.size,
+    vram: info?.vram ?? base?.vram,
+    family,
+    known: !!own,
+  };
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const optionalStrings = (value: unknown): string[] | undefined =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? value : undefined;
+
+// Only fields of the expected type are kept; anything else in the server's answer is dropped
+const toModelInfo = (id: unknown, fields: Fields): ModelInfo[] => {
+  const modelId = optionalString(id);
+  if (!modelId) return [];
+  return [{
+    id: modelId,
+    name: optionalString(fields.name),
+    description: optionalString(fields.description),
+    speed: optionalString(fields.speed),
+    quality: optionalString(fields.quality),
+    size: optionalString(fields.size),
+    vram: optionalString(fields.vram),
+    languages: optionalStrings(fields.languages),
+    loaded: typeof fields.loaded === 'boolean' ? fields.loaded : undefined,
+  }];
+};
+
+// Accepts a list of ids, a list of objects or an id-keyed map, bare or under "models"
+export function parseModelList(data: unknown): ModelInfo[] {
+  const list: unknown = isObject(data) && data.models !== undefined ? data.models : data;
+
+  if (Array.isArray(list)) {
+    return list.flatMap((item: unknown): ModelInfo[] => {
+      if (typeof item === 'string') return toModelInfo(item, {});
+      if (!isObject(item)) return [];
+      return toModelInfo(item.id ?? item.name, item);
+    });
+  }
+
+  if (isObject(list)) {
+    return Object.entries(list).flatMap(([id, info]) => toModelInfo(id, isObject(info) ? info : {}));
+  }
+  return [];
+}
+
+// The server's registry when it has one, then health's model names, then the built-in sizes
+export function buildModelRegistry(serverModels?: ModelInfo[], availableModels?: string[]): ModelDescriptor[] {
+  const models: ModelInfo[] = serverModels?.length
+    ? serverModels
+    : (availableModels?.length ? availableModels : MODEL_SIZES).map(id => ({ id }));
+
+  return models
+    .map(({ id, ...info }) => describeModel(id, info))
+    .sort((a, b) => compareModelCost(a.id, b.id));
+}
@@ -0,0 +1,71 @@
+// Turkish text normalization for accuracy scoring: casefolding, numbers as words, no punctuation
+//
+// "%25'i", "yüzde 25'i" and "Yüzde yirmi beşi" all become "yüzde yirmi beşi", so a transcript
+// is not penalized for writing numbers differently from the reference. Ordinals
+// ("3.") are left alone because the period cannot be told apart from a sentence end.
+
+const ONES = ['', 'bir', 'iki', 'üç', 'dört', 'beş', 'altı', 'yedi', 'sekiz', 'dokuz'];
+const TENS = ['', 'on', 'yirmi', 'otuz', 'kırk', 'elli', 'altmış', 'yetmiş', 'seksen', 'doksan'];
+const SCALES = ['', 'bin', 'milyon', 'milyar', 'trilyon'];
+
+// Circumflexes are optional in modern spelling: kâr / kar, hâlâ / hala
+const CIRCUMFLEXES: Record<string, string> = { 'â': 'a', 'î': 'i', 'û': 'u' };
+
+// 1.500.000 or 1500, optionally followed by a decimal comma part
+const NUMBER_PATTERN = /(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d+))?/g;
+
+const hundredsToWords = (value: number): string[] => {
+  const hundreds = Math.floor(value / 100);
+  const tens = Math.floor((value % 100) / 10);
+  const ones = value % 10;
+  return [
+    ...(hundreds > 1 ? [ONES[hundreds]] : []),
+    ...(hundreds > 0 ? ['yüz'] : []),
+    TENS[tens],
+    ONES[ones],
+  ].filter(Boolean);
+};
+
+// Digits beyond the largest scale are read one by one, like a phone number
+const digitsToWords = (digits: string): string =>
+  Array.from(digits, digit => (digit === '0' ? 'sıfır' : ONES[Number(digit)])).join(' ');
+
+// "1250" -> "bin iki yüz elli"; Turkish says "bin", never "bir bin"
+export function numberToWords(digits: string): string {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  if (trimmed.length > SCALES.length * 3) return digitsToWords(digits);
+
+  const value = Number(trimmed);
+  if (value === 0) return 'sıfır';
+
+  const words: string[] = [];
+  for (let scale = SCALES.length - 1; scale >= 0; scale--) {
+    const group = Math.floor(value / 1000 ** scale) % 1000;
+    if (group === 0) continue;
+    if (!(scale === 1 && group === 1)) words.push(...hundredsToWords(group));
+    if (SCALES[scale]) words.push(SCALES[scale]);
+  }
+  return words.join(' ');
+}
+
+// Leading zeros after the comma are read out: 3,05 is "üç virgül sıfır beş"
+const decimalToWords = (digits: string): string => {
+  const zeros = digits.match(/^0*/)?.[0].length ?? 0;
+  const rest = digits.slice(zeros);
+  return [...Array(zeros).fill('sıfır'), ...(rest ? [numberToWords(rest)] : [])].join(' ');
+};
+
+export function normalizeForScoring(text: string): string {
+  return text
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[âîû]/g, letter => CIRCUMFLEXES[letter])
+    .replace(/%\s*(?=\d)/g, 'yüzde ')
+    .replace(NUMBER_PATTERN, (_, integer: string, decimal?: string) => {
+      const spoken = numberToWords(integer.replace(/\./g, ''));
+      return ` ${decimal ? `${spoken} virgül ${decimalToWords(decimal)}` : spoken}`;
+    })
+    // An apostrophe only separates a suffix, so the two halves are one word: "istanbul'a" -> "istanbula"
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
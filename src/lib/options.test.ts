@@ -0,0 +1,39 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ADVANCED_OPTIONS, loadAdvancedOptions } from './options';
+
+const stubStorage = (stored: string | null) => {
+  globalThis.localStorage = { getItem: () => stored } as unknown as Storage;
+};
+
+describe('loadAdvancedOptions', () => {
+  afterEach(() => {
+    delete (globalThis as { localStorage?: Storage }).localStorage;
+  });
+
+  it('returns the defaults when nothing is stored', () => {
+    stubStorage(null);
+    assert.deepEqual(loadAdvancedOptions(), DEFAULT_ADVANCED_OPTIONS);
+  });
+
+  it('keeps valid stored fields and fills in missing ones', () => {
+    stubStorage(JSON.stringify({ language: 'en', temperature: 0.4 }));
+    assert.deepEqual(loadAdvancedOptions(), { ...DEFAULT_ADVANCED_OPTIONS, language: 'en', temperature: 0.4 });
+  });
+
+  it('drops unknown keys and wrongly typed or out-of-range values', () => {
+    stubStorage(JSON.stringify({
+      device: 'tpu',
+      temperature: 5,
+      word_timestamps: 'yes',
+      apply_vad: false,
+      extra: true,
+    }));
+    assert.deepEqual(loadAdvancedOptions(), { ...DEFAULT_ADVANCED_OPTIONS, apply_vad: false });
+  });
+
+  it('returns the defaults for unreadable storage', () => {
+    stubStorage('{not json');
+    assert.deepEqual(loadAdvancedOptions(), DEFAULT_ADVANCED_OPTIONS);
+  });
+});
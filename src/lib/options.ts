@@ -0,0 +1,169 @@
+// Advanced transcription options: defaults, persistence and validation
+
+import {
+  AdvancedOptionErrors,
+  AdvancedOptions,
+  DeviceType,
+  HealthStatus,
+  OutputFormat,
+  TranscriptionRequest
+} from './types';
+
+const STORAGE_KEY = 'transcription:advanced-options';
+
+export const TEMPERATURE_RANGE = { min: 0, max: 1 };
+export const SPEAKER_RANGE = { min: 1, max: 20 };
+
+// Whisper reads at most 224 prompt tokens, roughly this many characters of Turkish
+export const MAX_PROMPT_LENGTH = 800;
+
+export const LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'tr', label: 'Türkçe' },
+  { value: 'auto', label: 'Otomatik algıla' },
+  { value: 'en', label: 'İngilizce' },
+  { value: 'de', label: 'Almanca' },
+  { value: 'fr', label: 'Fransızca' },
+  { value: 'ar', label: 'Arapça' },
+  { value: 'ru', label: 'Rusça' },
+  { value: 'es', label: 'İspanyolca' },
+];
+
+// Whisper works at 16 kHz; lower rates only help with band-limited telephone audio
+export const SAMPLE_RATE_OPTIONS = [8000, 16000, 22050, 44100, 48000];
+
+export const DEFAULT_ADVANCED_OPTIONS: AdvancedOptions = {
+  language: 'tr',
+  device: 'auto',
+  apply_vad: true,
+  normalize_audio: true,
+  output_format: 'json',
+  initial_prompt: '',
+  temperature: 0,
+  word_timestamps: true,
+  diarize: false,
+};
+
+const DEVICE_TYPES: DeviceType[] = ['auto', 'cpu', 'cuda'];
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'txt', 'srt', 'vtt', 'all'];
+
+// Checks for every advanced option; keys not listed here never reach a request
+const OPTION_CHECKS: { [K in keyof Required<AdvancedOptions>]: (value: unknown) => boolean } = {
+  language: (value) => typeof value === 'string',
+  device: (value) => DEVICE_TYPES.includes(value as DeviceType),
+  apply_vad: (value) => typeof value === 'boolean',
+  normalize_audio: (value) => typeof value === 'boolean',
+  output_format: (value) => OUTPUT_FORMATS.includes(value as OutputFormat),
+  initial_prompt: (value) => typeof value === 'string',
+  temperature: (value) => typeof value === 'number',
+  word_timestamps: (value) => typeof value === 'boolean',
+  diarize: (value) => typeof value === 'boolean',
+  min_speakers: (value) => typeof value === 'number',
+  max_speakers: (value) => typeof value === 'number',
+  sample_rate: (value) => typeof value === 'number',
+};
+
+// Options from outside (an imported file, old storage): unknown keys and wrongly typed
+// or invalid values are dropped, falling back to the defaults
+export function sanitizeAdvancedOptions(value: unknown): AdvancedOptions {
+  const options: AdvancedOptions = { ...DEFAULT_ADVANCED_OPTIONS };
+  if (typeof value !== 'object' || value === null) return options;
+
+  const fields = value as Record<string, unknown>;
+  const target = options as Record<string, unknown>;
+  for (const key of Object.keys(OPTION_CHECKS) as (keyof AdvancedOptions)[]) {
+    if (Object.hasOwn(fields, key) && OPTION_CHECKS[key](fields[key])) {
+      target[key] = fields[key];
+    }
+  }
+
+  for (const key of Object.keys(validateAdvancedOptions(options)) as (keyof AdvancedOptions)[]) {
+    if (key in DEFAULT_ADVANCED_OPTIONS) {
+      target[key] = DEFAULT_ADVANCED_OPTIONS[key];
+    } else {
+      delete options[key];
+    }
+  }
+  return options;
+}
+
+export function loadAdvancedOptions(): AdvancedOptions {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_ADVANCED_OPTIONS;
+    // Missing or invalid fields, including ones added later, fall back to their defaults
+    return sanitizeAdvancedOptions(JSON.parse(stored));
+  } catch {
+    return DEFAULT_ADVANCED_OPTIONS;
+  }
+}
+
+export function saveAdvancedOptions(options: AdvancedOptions): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch {
+    // Storage may be unavailable (private mode); options then last for the session only
+  }
+}
+
+export function validateAdvancedOptions(
+  options: AdvancedOptions,
+  health?: HealthStatus | null
+): AdvancedOptionErrors {
+  const errors: AdvancedOptionErrors = {};
+  const { temperature, initial_prompt, min_speakers, max_speakers } = options;
+
+  if (temperature !== undefined && (
+    !Number.isFinite(temperature) || temperature < TEMPERATURE_RANGE.min || temperature > TEMPERATURE_RANGE.max
+  )) {
+    errors.temperature = `Sıcaklık ${TEMPERATURE_RANGE.min} ile ${TEMPERATURE_RANGE.max} arasında olmalı`;
+  }
+
+  if (options.device === 'cuda' && health && !health.gpu_available) {
+    errors.device = 'Sunucuda GPU bulunamadı';
+  }
+
+  if (initial_prompt && initial_prompt.length > MAX_PROMPT_LENGTH) {
+    errors.initial_prompt = `Başlangıç metni en fazla ${MAX_PROMPT_LENGTH} karakter olabilir`;
+  }
+
+  if (options.sample_rate !== undefined && !SAMPLE_RATE_OPTIONS.includes(options.sample_rate)) {
+    errors.sample_rate = 'Desteklenmeyen örnekleme hızı';
+  }
+
+  if (options.diarize) {
+    const outOfRange = (count?: number) =>
+      count !== undefined && (!Number.isInteger(count) || count < SPEAKER_RANGE.min || count > SPEAKER_RANGE.max);
+
+    if (outOfRange(min_speakers)) {
+      errors.min_speakers = `${SPEAKER_RANGE.min}-${SPEAKER_RANGE.max} arasında bir sayı girin`;
+    }
+    if (outOfRange(max_speakers)) {
+      errors.max_speakers = `${SPEAKER_RANGE.min}-${SPEAKER_RANGE.max} arasında bir sayı girin`;
+    } else if (min_speakers !== undefined && max_speakers !== undefined && min_speakers > max_speakers) {
+      errors.max_speakers = 'En fazla konuşmacı, en azdan küçük olamaz';
+    }
+  }
+
+  return errors;
+}
+
+// Request fields to send; invalid values are left out so the server defaults apply
+export function toTranscriptionRequest(
+  options: AdvancedOptions,
+  errors: AdvancedOptionErrors
+): TranscriptionRequest {
+  const request: TranscriptionRequest = { ...options };
+
+  for (const field of Object.keys(errors) as (keyof AdvancedOptions)[]) {
+    delete request[field];
+  }
+
+  if (request.language === 'auto') delete request.language;
+  if (!request.initial_prompt?.trim()) delete request.initial_prompt;
+  if (!request.diarize) {
+    delete request.min_speakers;
+    delete request.max_speakers;
+  }
+
+  return request;
+}
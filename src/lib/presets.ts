@@ -0,0 +1,169 @@
+// Named transcription presets: built-in defaults, persistence and JSON import/export
+
+import { DEFAULT_ADVANCED_OPTIONS, sanitizeAdvancedOptions } from './options';
+import { EXPORT_FORMATS } from './export';
+import { SUBTITLE_PROFILES } from './subtitles';
+import { AdvancedOptions, DownloadFormat, ModelSize, SubtitleProfileId, TranscriptionPreset } from './types';
+
+const STORAGE_KEY = 'transcription:presets';
+const EXPORT_VERSION = 1;
+
+class PresetImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetImportError';
+  }
+}
+
+export const createPresetId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `preset-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const DEFAULT_PRESETS: TranscriptionPreset[] = [
+  {
+    id: 'podcast',
+    name: 'Podcast',
+    description: 'Stüdyo kaydı, uzun konuşmalar',
+    model: 'medium',
+    options: { ...DEFAULT_ADVANCED_OPTIONS, apply_vad: true, normalize_audio: true },
+    export: { format: 'srt', subtitleProfile: 'youtube' },
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'call-center',
+    name: 'Çağrı merkezi',
+    description: '8 kHz telefon kaydı, iki konuşmacı',
+    model: 'small',
+    options: {
+      ...DEFAULT_ADVANCED_OPTIONS,
+      sample_rate: 8000,
+      normalize_audio: true,
+      diarize: true,
+      min_speakers: 2,
+      max_speakers: 2,
+    },
+    export: { format: 'txt' },
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'lecture',
+    name: 'Ders kaydı',
+    description: 'Uzun anlatım, alan terimleri',
+    model: 'large',
+    options: {
+      ...DEFAULT_ADVANCED_OPTIONS,
+      initial_prompt: 'Üniversite dersi. Konu anlatımı, tanımlar, formüller ve örnekler.',
+    },
+    export: { format: 'md' },
+    createdAt: 0,
+    updatedAt: 0,
+  },
+];
+
+export function loadPresets(): TranscriptionPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PRESETS;
+    const list: unknown = JSON.parse(stored);
+    if (!Array.isArray(list)) return DEFAULT_PRESETS;
+
+    // Stored presets keep their ids; entries that no longer parse are dropped rather than losing the rest
+    return list.flatMap((value, index) => {
+      try {
+        return [parsePreset(value, index, true)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return DEFAULT_PRESETS;
+  }
+}
+
+export function savePresets(presets: TranscriptionPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage may be unavailable (private mode); presets then last for the session only
+  }
+}
+
+export function serializePresets(presets: TranscriptionPreset[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2);
+}
+
+// Unset and empty values count as equal so a cleared field still matches its preset
+const sameOptions = (a: AdvancedOptions, b: AdvancedOptions): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof AdvancedOptions)[]);
+  return Array.from(keys).every(key => (a[key] ?? '') === (b[key] ?? ''));
+};
+
+export function findMatchingPreset(
+  presets: TranscriptionPreset[],
+  model: ModelSize,
+  options: AdvancedOptions
+): TranscriptionPreset | undefined {
+  return presets.find(preset => preset.model === model && sameOptions(preset.options, options));
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const parsePreset = (value: unknown, index: number, stored = false): TranscriptionPreset => {
+  if (!isObject(value) || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new PresetImportError(`${index + 1}. ön ayarın adı yok`);
+  }
+  // Any id is accepted, since the server may offer models beyond the built-in sizes
+  if (typeof value.model !== 'string' || !value.model.trim()) {
+    throw new PresetImportError(`"${value.name}" için model geçersiz`);
+  }
+
+  const exportPreference = isObject(value.export) ? value.export : {};
+  const format = exportPreference.format;
+  const subtitleProfile = exportPreference.subtitleProfile;
+  const now = Date.now();
+
+  return {
+    // Imported presets always get a new id so they never overwrite existing ones
+    id: stored && typeof value.id === 'string' ? value.id : createPresetId(),
+    name: value.name.trim(),
+    description: typeof value.description === 'string' ? value.description : undefined,
+    model: value.model.trim(),
+    options: sanitizeAdvancedOptions(value.options),
+    export: {
+      format: typeof format === 'string' && Object.hasOwn(EXPORT_FORMATS, format) ? format as DownloadFormat : 'srt',
+      subtitleProfile: typeof subtitleProfile === 'string' && Object.hasOwn(SUBTITLE_PROFILES, subtitleProfile)
+        ? subtitleProfile as SubtitleProfileId
+        : undefined,
+    },
+    // Glossaries are local, so only stored presets can refer to one
+    glossaryId: stored && typeof value.glossaryId === 'string' ? value.glossaryId : undefined,
+    createdAt: stored && isNumber(value.createdAt) ? value.createdAt : now,
+    updatedAt: stored && isNumber(value.updatedAt) ? value.updatedAt : now,
+  };
+};
+
+// Accepts our own export file or a bare array of presets
+export function parsePresets(json: string): TranscriptionPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PresetImportError('Dosya geçerli bir JSON değil');
+  }
+
+  const list = isObject(data) ? data.presets : data;
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new PresetImportError('Dosyada ön ayar bulunamadı');
+  }
+
+  return list.map((value, index) => parsePreset(value, index));
+}
+
+export { PresetImportError };
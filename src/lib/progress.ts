@@ -0,0 +1,73 @@
+// Progress and ETA estimation for running transcription tasks
+
+import { TranscriptionSegment, TranscriptionState } from './types';
+
+// Below this, the measured real-time factor is too noisy to base an ETA on
+const MIN_PROGRESS_FOR_ETA = 2;
+
+// Keep the bar short of 100% until the server reports completion
+const MAX_RUNNING_PROGRESS = 99;
+
+type ProgressFields = Pick<TranscriptionState, 'progress' | 'eta' | 'realTimeFactor' | 'lastProgressAt'>;
+
+// Share of the audio already decoded, judged by the end of the last segment
+export function progressFromSegments(
+  segments: TranscriptionSegment[] | undefined,
+  duration: number | undefined
+): number | undefined {
+  if (!segments?.length || !duration) return undefined;
+
+  const decodedUntil = Math.max(...segments.map((segment) => segment.end));
+  return Math.min(MAX_RUNNING_PROGRESS, Math.max(0, (decodedUntil / duration) * 100));
+}
+
+// Real-time factor is processing seconds spent per second of audio
+export function estimateTiming(
+  progress: number,
+  elapsedSeconds: number,
+  duration: number | undefined
+): { realTimeFactor?: number; eta?: number } {
+  if (!duration || progress < MIN_PROGRESS_FOR_ETA || elapsedSeconds <= 0) {
+    return {};
+  }
+
+  const decodedSeconds = (progress / 100) * duration;
+  const realTimeFactor = elapsedSeconds / decodedSeconds;
+  const eta = Math.max(0, (duration - decodedSeconds) * realTimeFactor);
+
+  return { realTimeFactor, eta };
+}
+
+// Merges a new progress reading into the state without ever moving backwards
+export function advanceProgress(
+  state: TranscriptionState,
+  candidate: number | undefined,
+  duration: number | undefined,
+  now: number = Date.now()
+): ProgressFields {
+  const current = {
+    progress: state.progress,
+    eta: state.eta,
+    realTimeFactor: state.realTimeFactor,
+    lastProgressAt: state.lastProgressAt,
+  };
+
+  if (candidate === undefined || !Number.isFinite(candidate) || candidate <= state.progress) {
+    return current;
+  }
+
+  const progress = Math.min(100, candidate);
+  if (progress === 100) {
+    return { progress, eta: 0, realTimeFactor: state.realTimeFactor, lastProgressAt: now };
+  }
+
+  const elapsedSeconds = state.startedAt ? (now - state.startedAt) / 1000 : 0;
+  const timing = estimateTiming(progress, elapsedSeconds, duration);
+
+  return {
+    progress,
+    eta: timing.eta ?? state.eta,
+    realTimeFactor: timing.realTimeFactor ?? state.realTimeFactor,
+    lastProgressAt: now,
+  };
+}
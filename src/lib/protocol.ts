@@ -0,0 +1,192 @@
+// Runtime validation for the task progress and download progress WebSocket protocols
+
+import {
+  ClientMessage,
+  DownloadResult,
+  DownloadSocketMessage,
+  ServerMessage,
+  TaskStatus,
+  TranscriptionResponse
+} from './types';
+
+// Bump together with the backend whenever a message shape changes
+export const PROTOCOL_VERSION = 1;
+
+const TASK_STATUSES: TaskStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+class ProtocolError extends Error {
+  constructor(
+    message: string,
+    public frame?: unknown
+  ) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): boolean =>
+  value === undefined || value === null || check(value);
+
+// Narrows a value that isOptional() has already accepted
+const optional = <T>(value: unknown, check: (value: unknown) => value is T): T | undefined =>
+  check(value) ? value : undefined;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isTaskStatus = (value: unknown): value is TaskStatus =>
+  TASK_STATUSES.includes(value as TaskStatus);
+
+const isTranscriptionResponse = (value: unknown): value is TranscriptionResponse =>
+  isObject(value) &&
+  isString(value.task_id) &&
+  isTaskStatus(value.status) &&
+  isOptional(value.text, isString) &&
+  isOptional(value.segments, Array.isArray);
+
+const requireData = (message: Fields, frame: unknown): Fields => {
+  if (!isObject(message.data)) {
+    throw new ProtocolError(`"${message.type}" message has no data object`, frame);
+  }
+  return message.data;
+};
+
+export function parseServerMessage(raw: string): ServerMessage {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Frame is not valid JSON', raw);
+  }
+
+  if (!isObject(frame) || !isString(frame.type)) {
+    throw new ProtocolError('Frame has no message type', frame);
+  }
+
+  if (!isOptional(frame.event_id, isNumber)) {
+    throw new ProtocolError('Frame has a non-numeric event_id', frame);
+  }
+
+  const message = parseMessageBody(frame);
+  const eventId = optional(frame.event_id, isNumber);
+  return eventId === undefined ? message : { ...message, event_id: eventId };
+}
+
+function parseMessageBody(frame: Fields): ServerMessage {
+  switch (frame.type) {
+    case 'hello':
+      if (!isNumber(frame.protocol_version)) {
+        throw new ProtocolError('"hello" message has no protocol_version', frame);
+      }
+      return { type: 'hello', protocol_version: frame.protocol_version };
+
+    case 'progress': {
+      const data = requireData(frame, frame);
+      if (!isNumber(data.progress) || !isOptional(data.stage, isString) || !isOptional(data.message, isString)) {
+        throw new ProtocolError('Malformed "progress" message', frame);
+      }
+      return {
+        type: 'progress',
+        data: {
+          progress: data.progress,
+          stage: optional(data.stage, isString),
+          message: optional(data.message, isString),
+        },
+      };
+    }
+
+    case 'status': {
+      const data = requireData(frame, frame);
+      if (!isTaskStatus(data.status) || !isOptional(data.progress, isNumber)) {
+        throw new ProtocolError('Malformed "status" message', frame);
+      }
+      return {
+        type: 'status',
+        data: {
+          status: data.status,
+          progress: optional(data.progress, isNumber),
+        },
+      };
+    }
+
+    case 'result':
+      if (!isTranscriptionResponse(frame.data)) {
+        throw new ProtocolError('Malformed "result" message', frame);
+      }
+      return { type: 'result', data: frame.data };
+
+    case 'error': {
+      const data = requireData(frame, frame);
+      if (!isString(data.error)) {
+        throw new ProtocolError('Malformed "error" message', frame);
+      }
+      return { type: 'error', data: { error: data.error } };
+    }
+
+    default:
+      throw new ProtocolError(`Unknown message type "${frame.type}"`, frame);
+  }
+}
+
+const DOWNLOAD_MESSAGE_TYPES: DownloadSocketMessage['type'][] = ['progress_update', 'status_update'];
+
+const isDownloadResult = (value: unknown): value is DownloadResult =>
+  isObject(value) &&
+  isString(value.session_id) &&
+  isString(value.video_id) &&
+  isString(value.filename) &&
+  isString(value.file_path) &&
+  isNumber(value.file_size) &&
+  isString(value.quality) &&
+  isString(value.title) &&
+  isOptional(value.duration, isNumber) &&
+  isOptional(value.uploader, isString);
+
+export function parseDownloadMessage(raw: string): DownloadSocketMessage {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Frame is not valid JSON', raw);
+  }
+
+  if (!isObject(frame) || !DOWNLOAD_MESSAGE_TYPES.includes(frame.type as DownloadSocketMessage['type'])) {
+    throw new ProtocolError('Frame has no known download message type', frame);
+  }
+
+  const textFields = ['percent', 'speed', 'eta', 'filename', 'message', 'error'] as const;
+  if (
+    !isString(frame.status) ||
+    !isOptional(frame.event_id, isNumber) ||
+    !isOptional(frame.result, isDownloadResult) ||
+    !textFields.every(field => isOptional(frame[field], isString))
+  ) {
+    throw new ProtocolError(`Malformed "${frame.type}" message`, frame);
+  }
+
+  return {
+    type: frame.type as DownloadSocketMessage['type'],
+    status: frame.status,
+    event_id: optional(frame.event_id, isNumber),
+    percent: optional(frame.percent, isString),
+    speed: optional(frame.speed, isString),
+    eta: optional(frame.eta, isString),
+    filename: optional(frame.filename, isString),
+    message: optional(frame.message, isString),
+    error: optional(frame.error, isString),
+    result: optional(frame.result, isDownloadResult),
+  };
+}
+
+export function createHelloMessage(): ClientMessage {
+  return { type: 'hello', protocol_version: PROTOCOL_VERSION };
+}
+
+export { ProtocolError };
@@ -0,0 +1,96 @@
+// Transcript quality report built from Whisper's per-segment decoding statistics
+//
+// The score starts at 100 and each factor takes off up to its share of points:
+//   logprob      35  duration-weighted mean token probability, exp(avg_logprob);
+//                    none taken off at 90% or above, all at 50% or below
+//   no_speech    15  share of audio where text was produced although no_speech_prob > 0.6;
+//                    all taken off at 10%
+//   compression  20  share of audio in segments with compression_ratio > 2.4; all at 10%
+//   repetition   15  share of audio in segments repeating a phrase or the previous line; all at 10%
+//   coverage     15  share of the file not covered by any segment; up to 20% silence is normal,
+//                    all taken off at 70%, which usually means speech was skipped
+// It estimates how sure the model was, not the word error rate; only a reference transcript can measure that.
+
+import { COMPRESSION_RATIO_THRESHOLD, NO_SPEECH_THRESHOLD, analyzeConfidence } from './confidence';
+import { QualityFactor, QualityReport, TranscriptionSegment } from './types';
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+const round = (value: number): number => Math.round(value * 10) / 10;
+const percent = (share: number): string => `%${Math.round(share * 100)}`;
+
+const duration = (segment: TranscriptionSegment): number => Math.max(segment.end - segment.start, 0);
+
+const gradeFor = (score: number): string =>
+  score >= 85 ? 'Yüksek' : score >= 70 ? 'İyi' : score >= 50 ? 'Orta' : 'Düşük';
+
+export function getQualityReport(
+  segments: TranscriptionSegment[] | undefined,
+  mediaDuration?: number
+): QualityReport {
+  const scored = (segments ?? []).filter(segment => segment.avg_logprob !== undefined);
+  if (!segments?.length || scored.length === 0) {
+    return { grade: 'Bilinmiyor', factors: [] };
+  }
+
+  const spoken = segments.reduce((sum, segment) => sum + duration(segment), 0) || 1;
+  const confidence = analyzeConfidence(segments);
+  const shareOf = (matches: (segment: TranscriptionSegment) => boolean) =>
+    segments.filter(matches).reduce((sum, segment) => sum + duration(segment), 0) / spoken;
+
+  const scoredDuration = scored.reduce((sum, segment) => sum + duration(segment), 0);
+  const meanProbability = scoredDuration > 0
+    ? scored.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob!) * duration(segment), 0) / scoredDuration
+    : scored.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob!), 0) / scored.length;
+
+  const noSpeechShare = shareOf(segment =>
+    (segment.no_speech_prob ?? 0) > NO_SPEECH_THRESHOLD && segment.text.trim().length > 0
+  );
+  const compressionShare = shareOf(segment => (segment.compression_ratio ?? 0) > COMPRESSION_RATIO_THRESHOLD);
+  const repetitionShare = shareOf(segment => !!confidence.get(segment.id)?.flags.includes('repetition'));
+
+  const factors: QualityFactor[] = [
+    {
+      id: 'logprob',
+      label: 'Model güveni',
+      maxPenalty: 35,
+      penalty: 35 * clamp((0.9 - meanProbability) / 0.4),
+      detail: `Ortalama token olasılığı ${percent(meanProbability)}; %90 ve üzeri tam puan alır`,
+    },
+    {
+      id: 'no_speech',
+      label: 'Sessizlikte metin',
+      maxPenalty: 15,
+      penalty: 15 * clamp(noSpeechShare / 0.1),
+      detail: `Sesin ${percent(noSpeechShare)} kadarı konuşma yok gibi görünürken yazıya dökülmüş`,
+    },
+    {
+      id: 'compression',
+      label: 'Döngüye giren çıktı',
+      maxPenalty: 20,
+      penalty: 20 * clamp(compressionShare / 0.1),
+      detail: `Sesin ${percent(compressionShare)} kadarında sıkıştırma oranı ${COMPRESSION_RATIO_THRESHOLD} üzerinde`,
+    },
+    {
+      id: 'repetition',
+      label: 'Tekrarlanan ifadeler',
+      maxPenalty: 15,
+      penalty: 15 * clamp(repetitionShare / 0.1),
+      detail: `Sesin ${percent(repetitionShare)} kadarında aynı ifade art arda tekrarlanıyor`,
+    },
+  ];
+
+  if (mediaDuration && mediaDuration > 0) {
+    const uncovered = clamp(1 - spoken / mediaDuration);
+    factors.push({
+      id: 'coverage',
+      label: 'Kapsanmayan süre',
+      maxPenalty: 15,
+      penalty: 15 * clamp((uncovered - 0.2) / 0.5),
+      detail: `Dosyanın ${percent(uncovered)} kadarında segment yok; %20'ye kadar sessizlik normaldir`,
+    });
+  }
+
+  const roundedFactors = factors.map(factor => ({ ...factor, penalty: round(factor.penalty) }));
+  const score = round(Math.max(0, 100 - roundedFactors.reduce((sum, factor) => sum + factor.penalty, 0)));
+  return { score, grade: gradeFor(score), factors: roundedFactors };
+}
@@ -0,0 +1,44 @@
+// Microphone recordings: a container the backend accepts, the saved file and the input level
+
+import { RecordingFormat } from './types';
+
+// Long enough for an interview, short enough to stay well under the upload limit
+export const DEFAULT_MAX_RECORDING_SECONDS = 60 * 60;
+
+// Opus in WebM on Chrome and Firefox, AAC in MP4 on Safari; both are upload formats the backend accepts
+const RECORDING_FORMATS: RecordingFormat[] = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/webm', extension: 'webm' },
+  { mimeType: 'audio/mp4', extension: 'm4a' },
+];
+
+export function pickRecordingFormat(
+  isTypeSupported: (mimeType: string) => boolean = (mimeType) =>
+    typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType)
+): RecordingFormat | undefined {
+  return RECORDING_FORMATS.find(format => isTypeSupported(format.mimeType));
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+// e.g. kayit-2024-05-01-1430.webm
+export function buildRecordingFile(chunks: Blob[], format: RecordingFormat, date = new Date()): File {
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  // The container type without codecs, as the backend and <audio> expect it
+  const type = format.mimeType.split(';')[0];
+  return new File(chunks, `kayit-${stamp}.${format.extension}`, { type });
+}
+
+// RMS of 8-bit time-domain samples centered on 128, scaled so normal speech fills most of the meter
+export function computeLevel(samples: Uint8Array): number {
+  if (!samples.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const value = (samples[i] - 128) / 128;
+    sum += value * value;
+  }
+  return Math.min(1, Math.sqrt(sum / samples.length) * 3);
+}
+
+export const formatRecordingTime = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${pad(Math.floor(seconds % 60))}`;
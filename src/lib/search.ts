@@ -0,0 +1,104 @@
+// Transcript search with Turkish case folding, optional diacritic folding, literal and regex modes
+
+import { SearchOptions, TextRange } from './types';
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  regex: false,
+  wholeWord: false,
+  ignoreDiacritics: false,
+};
+
+export interface SearchMatcher {
+  pattern: RegExp;
+  ignoreDiacritics: boolean;
+}
+
+const DIACRITICS: Record<string, string> = {
+  ş: 's', ğ: 'g', ç: 'c', ö: 'o', ü: 'u', ı: 'i', â: 'a', î: 'i', û: 'u',
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Character by character so offsets in the folded text match the original.
+// The tr-TR locale maps İ to i and I to ı, which the default toLowerCase gets wrong.
+const foldChar = (char: string, ignoreDiacritics: boolean): string => {
+  const lower = char.toLocaleLowerCase('tr-TR');
+  const folded = lower.length === 1 ? lower : char;
+  return ignoreDiacritics ? DIACRITICS[folded] ?? folded : folded;
+};
+
+export const foldText = (text: string, ignoreDiacritics: boolean): string =>
+  Array.from(text, char => foldChar(char, ignoreDiacritics)).join('');
+
+// Regex syntax must survive, so only the Turkish I's and the folded letters are rewritten;
+// the i flag handles the remaining upper-case letters
+const foldPattern = (pattern: string, ignoreDiacritics: boolean): string =>
+  pattern.replace(/[İIŞĞÇÖÜşğçöüıâîû]/g, char => foldChar(char, ignoreDiacritics));
+
+// Returns an error message instead of throwing so it can be shown while the user types
+export function compileSearch(
+  query: string,
+  options: SearchOptions
+): { matcher: SearchMatcher | null; error?: string } {
+  if (!query) return { matcher: null };
+
+  const source = options.regex
+    ? foldPattern(query, options.ignoreDiacritics)
+    : escapeRegExp(foldText(query, options.ignoreDiacritics));
+  const bounded = options.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+
+  try {
+    return {
+      matcher: { pattern: new RegExp(bounded, 'giu'), ignoreDiacritics: options.ignoreDiacritics },
+    };
+  } catch {
+    return { matcher: null, error: 'Geçersiz düzenli ifade' };
+  }
+}
+
+export function findMatches(text: string, matcher: SearchMatcher | null): TextRange[] {
+  if (!matcher || !text) return [];
+
+  const folded = foldText(text, matcher.ignoreDiacritics);
+  const ranges: TextRange[] = [];
+  for (const match of folded.matchAll(matcher.pattern)) {
+    // Empty matches (e.g. "a*") would highlight nothing
+    if (match[0].length === 0) continue;
+    ranges.push({ start: match.index!, end: match.index! + match[0].length });
+  }
+  return ranges;
+}
+
+// Carry the casing of the matched text over: "İSTANBUL" → upper case, "Ankara" → capitalised.
+// Mixed or lower-case matches keep the replacement as typed, so "Kubernetes" stays intact.
+export function preserveCase(original: string, replacement: string): string {
+  const upper = original.toLocaleUpperCase('tr-TR');
+  const lower = original.toLocaleLowerCase('tr-TR');
+  if (original === upper && original !== lower) {
+    return replacement.toLocaleUpperCase('tr-TR');
+  }
+
+  const [first, ...rest] = Array.from(original);
+  const restText = rest.join('');
+  if (first !== first.toLocaleLowerCase('tr-TR') && restText === restText.toLocaleLowerCase('tr-TR')) {
+    return replacement.charAt(0).toLocaleUpperCase('tr-TR') + replacement.slice(1);
+  }
+
+  return replacement;
+}
+
+// Ranges must come from findMatches on the same text; they are replaced back to front
+export function replaceRanges(
+  text: string,
+  ranges: TextRange[],
+  replacement: string,
+  keepCase: boolean
+): string {
+  return [...ranges]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, range) => {
+      const original = result.slice(range.start, range.end);
+      const value = keepCase ? preserveCase(original, replacement) : replacement;
+      return result.slice(0, range.start) + value + result.slice(range.end);
+    }, text);
+}
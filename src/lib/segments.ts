@@ -0,0 +1,180 @@
+// Pure edit operations on transcript segments
+
+import { SegmentEdge, TranscriptionResponse, TranscriptionSegment, TranscriptionWord } from './types';
+
+// Shortest segment an edit may leave behind, in seconds
+export const MIN_SEGMENT_DURATION = 0.1;
+
+const round = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+// Ids follow list order, so they are renumbered after every structural change
+const renumber = (segments: TranscriptionSegment[]): TranscriptionSegment[] =>
+  segments.map((segment, index) => (segment.id === index ? segment : { ...segment, id: index }));
+
+const tokenize = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+// Word timings survive a text edit only while the word count still matches
+const alignWords = (
+  words: TranscriptionWord[] | undefined,
+  text: string
+): TranscriptionWord[] | undefined => {
+  const tokens = tokenize(text);
+  if (!words || words.length !== tokens.length) return undefined;
+  return words.map((word, index) => (word.word.trim() === tokens[index] ? word : { ...word, word: tokens[index] }));
+};
+
+export function joinSegmentText(segments: TranscriptionSegment[]): string {
+  return segments.map((segment) => segment.text.trim()).filter(Boolean).join(' ');
+}
+
+export function updateSegmentText(
+  segments: TranscriptionSegment[],
+  id: number,
+  text: string
+): TranscriptionSegment[] {
+  return segments.map((segment) =>
+    segment.id === id ? { ...segment, text, words: alignWords(segment.words, text) } : segment
+  );
+}
+
+// Several text edits at once, e.g. accepting a batch of corrections as one undo step
+export function updateSegmentTexts(
+  segments: TranscriptionSegment[],
+  texts: Map<number, string>
+): TranscriptionSegment[] {
+  return segments.map((segment) => {
+    const text = texts.get(segment.id);
+    return text === undefined || text === segment.text
+      ? segment
+      : { ...segment, text, words: alignWords(segment.words, text) };
+  });
+}
+
+// Split at a character offset; the time is divided in proportion to the text
+export function splitSegment(
+  segments: TranscriptionSegment[],
+  id: number,
+  offset: number,
+  text?: string
+): TranscriptionSegment[] {
+  const index = segments.findIndex((segment) => segment.id === id);
+  if (index === -1) return segments;
+
+  const segment = segments[index];
+  const source = text ?? segment.text;
+  const head = source.slice(0, offset).trim();
+  const tail = source.slice(offset).trim();
+  if (!head || !tail) return segments;
+
+  const duration = segment.end - segment.start;
+  if (duration < MIN_SEGMENT_DURATION * 2) return segments;
+
+  // Split where the next word starts when word timings are known
+  const headCount = tokenize(head).length;
+  const splitsWord = headCount + tokenize(tail).length !== tokenize(source).length;
+  const words = splitsWord ? undefined : alignWords(segment.words, source);
+  const ratio = offset / source.length;
+  const estimate = words ? words[headCount].start : segment.start + duration * ratio;
+  const splitAt = round(Math.min(
+    segment.end - MIN_SEGMENT_DURATION,
+    Math.max(segment.start + MIN_SEGMENT_DURATION, estimate)
+  ));
+
+  // Token ids no longer match the text, so they are dropped on both halves
+  const first: TranscriptionSegment = {
+    ...segment, text: head, end: splitAt, tokens: undefined, words: words?.slice(0, headCount),
+  };
+  const second: TranscriptionSegment = {
+    ...segment, text: tail, start: splitAt, tokens: undefined, words: words?.slice(headCount),
+  };
+
+  return renumber([...segments.slice(0, index), first, second, ...segments.slice(index + 1)]);
+}
+
+// Merge a segment with the one after it
+export function mergeWithNext(
+  segments: TranscriptionSegment[],
+  id: number
+): TranscriptionSegment[] {
+  const index = segments.findIndex((segment) => segment.id === id);
+  if (index === -1 || index === segments.length - 1) return segments;
+
+  const first = segments[index];
+  const second = segments[index + 1];
+  const firstDuration = first.end - first.start;
+  const secondDuration = second.end - second.start;
+
+  const weighted = (a?: number, b?: number): number | undefined => {
+    if (a === undefined || b === undefined) return a ?? b;
+    const total = firstDuration + secondDuration;
+    return total > 0 ? (a * firstDuration + b * secondDuration) / total : (a + b) / 2;
+  };
+
+  const merged: TranscriptionSegment = {
+    ...first,
+    end: second.end,
+    text: `${first.text.trim()} ${second.text.trim()}`.trim(),
+    tokens: first.tokens && second.tokens ? [...first.tokens, ...second.tokens] : undefined,
+    words: first.words && second.words ? [...first.words, ...second.words] : undefined,
+    avg_logprob: weighted(first.avg_logprob, second.avg_logprob),
+    no_speech_prob: weighted(first.no_speech_prob, second.no_speech_prob),
+    compression_ratio: weighted(first.compression_ratio, second.compression_ratio),
+  };
+
+  return renumber([...segments.slice(0, index), merged, ...segments.slice(index + 2)]);
+}
+
+// Move one edge of a segment, without overlapping its neighbours
+export function nudgeSegment(
+  segments: TranscriptionSegment[],
+  id: number,
+  edge: SegmentEdge,
+  delta: number
+): TranscriptionSegment[] {
+  const index = segments.findIndex((segment) => segment.id === id);
+  if (index === -1) return segments;
+
+  const segment = segments[index];
+  const previous = segments[index - 1];
+  const next = segments[index + 1];
+
+  if (edge === 'start') {
+    const min = previous ? previous.end : 0;
+    const max = segment.end - MIN_SEGMENT_DURATION;
+    const start = round(Math.min(max, Math.max(min, segment.start + delta)));
+    if (start === segment.start) return segments;
+    return segments.map((item) => (item.id === id ? { ...item, start } : item));
+  }
+
+  const min = segment.start + MIN_SEGMENT_DURATION;
+  const max = next ? next.start : Infinity;
+  const end = round(Math.min(max, Math.max(min, segment.end + delta)));
+  if (end === segment.end) return segments;
+  return segments.map((item) => (item.id === id ? { ...item, end } : item));
+}
+
+// Rename a speaker everywhere; renaming to an existing name joins the two
+export function renameSpeaker(
+  segments: TranscriptionSegment[],
+  from: string,
+  to: string
+): TranscriptionSegment[] {
+  const name = to.trim();
+  if (!name || name === from || !segments.some((segment) => segment.speaker === from)) return segments;
+  return segments.map((segment) => (segment.speaker === from ? { ...segment, speaker: name } : segment));
+}
+
+// Rebuild a response around edited segments so exports and copies pick them up
+export function applySegments(
+  result: TranscriptionResponse,
+  segments: TranscriptionSegment[]
+): TranscriptionResponse {
+  const text = joinSegmentText(segments);
+  return {
+    ...result,
+    segments,
+    text,
+    word_count: text.split(/\s+/).filter(Boolean).length,
+    character_count: text.length,
+  };
+}
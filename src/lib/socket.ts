@@ -0,0 +1,127 @@
+// WebSocket wrapper that reconnects with exponential backoff and resumes from the last seen event
+
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ReconnectingSocketOptions {
+  // Builds the URL for each attempt; lastEventId lets the server replay what was missed
+  url: (lastEventId: number | null) => string;
+  onOpen?: (socket: ReconnectingSocket) => void;
+  onMessage?: (data: string) => void;
+  onError?: (error: Event) => void;
+  onStateChange?: (state: ConnectionState) => void;
+  shouldReconnect?: (event: CloseEvent) => boolean;
+  baseDelay?: number;
+  maxDelay?: number;
+  maxAttempts?: number;
+}
+
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+const DEFAULT_MAX_ATTEMPTS = 20;
+
+// 1000 is a deliberate close (e.g. task finished); anything else is worth retrying
+const defaultShouldReconnect = (event: CloseEvent): boolean => event.code !== 1000;
+
+export class ReconnectingSocket {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closedByClient = false;
+  private lastEventId: number | null = null;
+  private currentState: ConnectionState = 'connecting';
+
+  constructor(private options: ReconnectingSocketOptions) {
+    this.connect();
+  }
+
+  get state(): ConnectionState {
+    return this.currentState;
+  }
+
+  // Returns false for events already delivered before a reconnect replayed them
+  markEventSeen(eventId: number): boolean {
+    if (this.lastEventId !== null && eventId <= this.lastEventId) {
+      return false;
+    }
+    this.lastEventId = eventId;
+    return true;
+  }
+
+  send(data: string): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    }
+  }
+
+  close(code: number = 1000, reason?: string): void {
+    this.closedByClient = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close(code, reason);
+    this.socket = null;
+    this.setState('closed');
+  }
+
+  private connect(): void {
+    const ws = new WebSocket(this.options.url(this.lastEventId));
+    this.socket = ws;
+
+    ws.onopen = () => {
+      this.attempts = 0;
+      this.setState('open');
+      this.options.onOpen?.(this);
+    };
+
+    ws.onmessage = (event) => {
+      this.options.onMessage?.(event.data);
+    };
+
+    ws.onerror = (error) => {
+      this.options.onError?.(error);
+    };
+
+    ws.onclose = (event) => {
+      if (this.socket !== ws || this.closedByClient) return;
+      this.socket = null;
+
+      const shouldReconnect = this.options.shouldReconnect ?? defaultShouldReconnect;
+      if (shouldReconnect(event)) {
+        this.scheduleReconnect();
+      } else {
+        this.setState('closed');
+      }
+    };
+  }
+
+  private scheduleReconnect(): void {
+    const {
+      baseDelay = DEFAULT_BASE_DELAY,
+      maxDelay = DEFAULT_MAX_DELAY,
+      maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    } = this.options;
+
+    if (this.attempts >= maxAttempts) {
+      this.setState('closed');
+      return;
+    }
+
+    // Equal jitter: half of the backoff is fixed, the other half random
+    const backoff = Math.min(maxDelay, baseDelay * 2 ** this.attempts);
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+    this.attempts++;
+
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.currentState === state) return;
+    this.currentState = state;
+    this.options.onStateChange?.(state);
+  }
+}
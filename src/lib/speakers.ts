@@ -0,0 +1,62 @@
+// Speaker listing, colors and talk time for diarized transcripts
+
+import { SpeakerTalkTime, TranscriptionSegment } from './types';
+
+export interface SpeakerColor {
+  text: string;
+  border: string;
+  background: string;
+  bar: string;
+}
+
+// Full class names so Tailwind keeps them in the build
+const SPEAKER_COLORS: SpeakerColor[] = [
+  { text: 'text-sky-300', border: 'border-l-sky-500', background: 'bg-sky-500/20', bar: 'bg-sky-500' },
+  { text: 'text-amber-300', border: 'border-l-amber-500', background: 'bg-amber-500/20', bar: 'bg-amber-500' },
+  { text: 'text-emerald-300', border: 'border-l-emerald-500', background: 'bg-emerald-500/20', bar: 'bg-emerald-500' },
+  { text: 'text-rose-300', border: 'border-l-rose-500', background: 'bg-rose-500/20', bar: 'bg-rose-500' },
+  { text: 'text-violet-300', border: 'border-l-violet-500', background: 'bg-violet-500/20', bar: 'bg-violet-500' },
+  { text: 'text-lime-300', border: 'border-l-lime-500', background: 'bg-lime-500/20', bar: 'bg-lime-500' },
+  { text: 'text-orange-300', border: 'border-l-orange-500', background: 'bg-orange-500/20', bar: 'bg-orange-500' },
+  { text: 'text-cyan-300', border: 'border-l-cyan-500', background: 'bg-cyan-500/20', bar: 'bg-cyan-500' },
+];
+
+// Speakers in order of first appearance
+export function listSpeakers(segments: TranscriptionSegment[] | undefined): string[] {
+  const speakers: string[] = [];
+  for (const segment of segments ?? []) {
+    if (segment.speaker && !speakers.includes(segment.speaker)) {
+      speakers.push(segment.speaker);
+    }
+  }
+  return speakers;
+}
+
+export function getSpeakerColor(speaker: string, speakers: string[]): SpeakerColor {
+  const index = Math.max(0, speakers.indexOf(speaker));
+  return SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+}
+
+// Talk time per speaker, longest first
+export function getTalkTime(segments: TranscriptionSegment[] | undefined): SpeakerTalkTime[] {
+  const totals = new Map<string, { seconds: number; segmentCount: number }>();
+
+  for (const segment of segments ?? []) {
+    if (!segment.speaker) continue;
+    const total = totals.get(segment.speaker) ?? { seconds: 0, segmentCount: 0 };
+    total.seconds += Math.max(0, segment.end - segment.start);
+    total.segmentCount += 1;
+    totals.set(segment.speaker, total);
+  }
+
+  const overall = Array.from(totals.values()).reduce((sum, total) => sum + total.seconds, 0);
+
+  return Array.from(totals.entries())
+    .map(([speaker, total]) => ({
+      speaker,
+      seconds: total.seconds,
+      share: overall > 0 ? (total.seconds / overall) * 100 : 0,
+      segmentCount: total.segmentCount,
+    }))
+    .sort((a, b) => b.seconds - a.seconds);
+}
@@ -0,0 +1,236 @@
+// Subtitle cue formatting with line-length, reading-speed and timing rules
+
+import { SubtitleProfile, SubtitleProfileId, TranscriptionSegment } from './types';
+
+export const SUBTITLE_PROFILES: Record<SubtitleProfileId, SubtitleProfile> = {
+  netflix: {
+    id: 'netflix',
+    label: 'Netflix benzeri',
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 5 / 6,
+    maxDuration: 7,
+    maxCharsPerSecond: 17,
+    minGap: 2 / 24,
+  },
+  youtube: {
+    id: 'youtube',
+    label: 'YouTube',
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 1,
+    maxDuration: 7,
+    maxCharsPerSecond: 21,
+    minGap: 0,
+  },
+  tv: {
+    id: 'tv',
+    label: 'Televizyon',
+    maxCharsPerLine: 37,
+    maxLines: 2,
+    minDuration: 1.2,
+    maxDuration: 6,
+    maxCharsPerSecond: 15,
+    minGap: 0.12,
+  },
+};
+
+// A line or cue should not end on these; they belong with the words that follow
+const WEAK_BREAK_WORDS = new Set([
+  've', 'veya', 'ya', 'yahut', 'ama', 'fakat', 'lakin', 'ancak', 'oysa', 'halbuki',
+  'çünkü', 'yani', 'ile', 'hem', 'ne', 'ki', 'eğer', 'bir', 'bu', 'şu',
+]);
+
+// Below this share of a cue, a sentence end is not worth a cue of its own
+const MIN_SENTENCE_CUE_SHARE = 0.3;
+
+// A full cue is cut back to a clause boundary when one lies past this share
+const MIN_CLAUSE_CUE_SHARE = 0.5;
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  probability?: number;
+}
+
+const isWeakBreak = (word: string): boolean =>
+  WEAK_BREAK_WORDS.has(word.toLocaleLowerCase('tr'));
+
+const endsSentence = (word: string): boolean => /[.!?…]["'”’)]*$/.test(word);
+
+const endsClause = (word: string): boolean => /[,;:]["'”’)]*$/.test(word);
+
+const joinedLength = (words: string[]): number =>
+  words.reduce((total, word) => total + word.length, 0) + Math.max(0, words.length - 1);
+
+const tokenize = (text: string): string[] => text.trim().split(/\s+/).filter(Boolean);
+
+// Word timings from the server, when they still match the (possibly edited) text
+const recordedWords = (segment: TranscriptionSegment): TimedWord[] | null => {
+  const tokens = tokenize(segment.text);
+  if (!segment.words || segment.words.length !== tokens.length) return null;
+
+  return segment.words.map((word, index) => ({
+    text: tokens[index],
+    start: word.start,
+    end: word.end,
+    probability: word.probability,
+  }));
+};
+
+// Without word timings, time is spread over the segment in proportion to characters
+const estimateWords = (segment: TranscriptionSegment): TimedWord[] => {
+  const tokens = tokenize(segment.text);
+  const totalChars = tokens.reduce((total, word) => total + word.length + 1, 0);
+  const duration = Math.max(0, segment.end - segment.start);
+
+  let offset = 0;
+  return tokens.map((word) => {
+    const start = segment.start + (offset / totalChars) * duration;
+    offset += word.length + 1;
+    const end = segment.start + ((offset - 1) / totalChars) * duration;
+    return { text: word, start, end };
+  });
+};
+
+// Best split of a cue's words into lines, or null when they cannot fit
+export function breakLines(
+  words: string[],
+  maxCharsPerLine: number,
+  maxLines: number
+): string[] | null {
+  if (words.length === 0) return [];
+  // A single overlong word cannot be broken, so it gets a line of its own
+  if (words.length === 1 || joinedLength(words) <= maxCharsPerLine) return [words.join(' ')];
+  if (maxLines <= 1) return null;
+
+  let best: { lines: string[]; score: number } | null = null;
+
+  for (let index = 1; index < words.length; index++) {
+    const head = words.slice(0, index);
+    const headLength = joinedLength(head);
+    if (headLength > maxCharsPerLine && index > 1) break;
+
+    const rest = breakLines(words.slice(index), maxCharsPerLine, maxLines - 1);
+    if (!rest) continue;
+
+    const lines = [head.join(' '), ...rest];
+    const lengths = lines.map((line) => line.length);
+    const lastWord = head[head.length - 1];
+
+    // Balanced lines, slightly bottom-heavy, broken at punctuation rather than after a conjunction
+    let score = Math.max(...lengths) - Math.min(...lengths);
+    if (lengths[0] > lengths[1]) score += 2;
+    if (isWeakBreak(lastWord)) score += 40;
+    if (endsSentence(lastWord)) score -= 15;
+    else if (endsClause(lastWord)) score -= 8;
+
+    if (!best || score < best.score) {
+      best = { lines, score };
+    }
+  }
+
+  return best?.lines ?? null;
+}
+
+// Pack a segment's words into cues that fit the profile's size and duration limits
+const packCues = (words: TimedWord[], profile: SubtitleProfile): TimedWord[][] => {
+  const maxCueChars = profile.maxCharsPerLine * profile.maxLines;
+  const cues: TimedWord[][] = [];
+  let current: TimedWord[] = [];
+
+  const fits = (candidate: TimedWord[]): boolean => {
+    const texts = candidate.map((word) => word.text);
+    return joinedLength(texts) <= maxCueChars
+      && candidate[candidate.length - 1].end - candidate[0].start <= profile.maxDuration
+      && breakLines(texts, profile.maxCharsPerLine, profile.maxLines) !== null;
+  };
+
+  // Index after which a full cue reads best: a clause boundary, else before trailing conjunctions
+  const findCueBreak = (next: TimedWord): number => {
+    const texts = current.map((word) => word.text);
+    const minLength = joinedLength(texts) * MIN_CLAUSE_CUE_SHARE;
+
+    for (let index = current.length - 1; index > 0; index--) {
+      if (joinedLength(texts.slice(0, index + 1)) < minLength) break;
+      const following = current[index + 1] ?? next;
+      if (endsSentence(texts[index]) || endsClause(texts[index]) || (isWeakBreak(following.text) && !isWeakBreak(texts[index]))) {
+        return index + 1;
+      }
+    }
+
+    let end = current.length;
+    while (end > 1 && isWeakBreak(current[end - 1].text)) end--;
+    return end;
+  };
+
+  for (const word of words) {
+    if (current.length > 0 && !fits([...current, word])) {
+      const breakAt = findCueBreak(word);
+      cues.push(current.slice(0, breakAt));
+      current = current.slice(breakAt);
+    }
+    current.push(word);
+
+    const share = joinedLength(current.map((item) => item.text)) / maxCueChars;
+    if (endsSentence(word.text) && share >= MIN_SENTENCE_CUE_SHARE) {
+      cues.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) cues.push(current);
+  return cues;
+};
+
+// Stretch short or fast cues, then keep the minimum gap to the next cue
+const applyTiming = (cues: TranscriptionSegment[], profile: SubtitleProfile): TranscriptionSegment[] =>
+  cues.map((cue, index) => {
+    const next = cues[index + 1];
+    const limit = next ? next.start - profile.minGap : Infinity;
+    const characters = cue.text.replace(/\n/g, '').length;
+    const needed = Math.max(profile.minDuration, characters / profile.maxCharsPerSecond);
+
+    let end = Math.max(cue.end, cue.start + needed);
+    end = Math.min(end, cue.start + Math.max(profile.maxDuration, cue.end - cue.start), limit);
+
+    // When the next cue starts too soon, the gap wins but the cue stays visible
+    if (end <= cue.start) {
+      end = next ? Math.max(cue.start + 0.01, Math.min(cue.end, next.start)) : cue.end;
+    }
+
+    return { ...cue, end: Math.round(end * 1000) / 1000 };
+  });
+
+// Re-segment transcript segments into subtitle cues; lines are separated by "\n"
+export function formatSubtitles(
+  segments: TranscriptionSegment[],
+  profile: SubtitleProfile
+): TranscriptionSegment[] {
+  const cues: TranscriptionSegment[] = [];
+
+  for (const segment of segments) {
+    const recorded = recordedWords(segment);
+    for (const words of packCues(recorded ?? estimateWords(segment), profile)) {
+      const texts = words.map((word) => word.text);
+      const lines = breakLines(texts, profile.maxCharsPerLine, profile.maxLines) ?? [texts.join(' ')];
+      cues.push({
+        id: cues.length,
+        start: Math.round(words[0].start * 1000) / 1000,
+        end: Math.round(words[words.length - 1].end * 1000) / 1000,
+        text: lines.join('\n'),
+        speaker: segment.speaker,
+        // Estimated timings are only good for packing, so they are not passed on
+        words: recorded ? words.map((word) => ({
+          word: word.text,
+          start: word.start,
+          end: word.end,
+          probability: word.probability,
+        })) : undefined,
+      });
+    }
+  }
+
+  return applyTiming(cues, profile);
+}
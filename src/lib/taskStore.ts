@@ -0,0 +1,44 @@
+// Persists active and recent transcription tasks so a reload can reattach to them
+
+import { deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { StoredTask } from './types';
+
+// Older tasks are pruned; the server only keeps results for a limited time anyway
+const MAX_STORED_TASKS = 20;
+
+export async function saveTask(task: StoredTask): Promise<void> {
+  await putRecord('tasks', task);
+  await pruneTasks();
+}
+
+export async function updateTask(
+  taskId: string,
+  patch: Partial<Omit<StoredTask, 'taskId'>>
+): Promise<void> {
+  const task = await getRecord<StoredTask>('tasks', taskId);
+  if (!task) return;
+
+  await putRecord('tasks', { ...task, ...patch, updatedAt: Date.now() });
+}
+
+export async function listTasks(): Promise<StoredTask[]> {
+  const tasks = await getAllRecords<StoredTask>('tasks');
+  return tasks.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// The most recent task the user has not dismissed with reset()
+export async function findTaskToRestore(): Promise<StoredTask | undefined> {
+  const tasks = await listTasks();
+  return tasks.find((task) => !task.dismissed);
+}
+
+export async function dismissTask(taskId: string): Promise<void> {
+  await updateTask(taskId, { dismissed: true });
+}
+
+async function pruneTasks(): Promise<void> {
+  const tasks = await listTasks();
+  await Promise.all(
+    tasks.slice(MAX_STORED_TASKS).map((task) => deleteRecord('tasks', task.taskId))
+  );
+}
@@ -7,6 +7,13 @@ export interface FileUploadResponse {
   path: string;
 }
 
+export interface UploadSession {
+  session_id: string;
+  chunk_size: number;
+  received_chunks: number[];
+  expires_at?: string;
+}
+
 export interface FileInfo {
   filename: string;
   format: string;
@@ -20,10 +27,56 @@ export interface FileInfo {
   file_size_mb: number;
 }
 
-export type ModelSize = 'tiny' | 'base' | 'small' | 'medium' | 'large';
+// Whisper sizes the UI ships its own descriptions for
+export type KnownModelSize = 'tiny' | 'base' | 'small' | 'medium' | 'large';
+// Any model the server offers, such as "large-v3", "turbo" or a fine-tuned checkpoint
+export type ModelSize = KnownModelSize | (string & {});
 export type TaskStatus = 'pending' | 'processing' | 'completed' | 'failed';
 export type OutputFormat = 'json' | 'txt' | 'srt' | 'vtt' | 'all';
 export type DeviceType = 'cpu' | 'cuda' | 'auto';
+export type DownloadFormat = 'txt' | 'txt-timestamps' | 'srt' | 'vtt' | 'vtt-words' | 'ttml' | 'ass' | 'csv' | 'md' | 'json';
+export type SegmentEdge = 'start' | 'end';
+export type SubtitleProfileId = 'netflix' | 'youtube' | 'tv';
+
+export interface SubtitleProfile {
+  id: SubtitleProfileId;
+  label: string;
+  maxCharsPerLine: number;
+  maxLines: number;
+  minDuration: number;
+  maxDuration: number;
+  maxCharsPerSecond: number;
+  minGap: number;
+}
+
+export interface SearchOptions {
+  regex: boolean;
+  wholeWord: boolean;
+  // Treat ş/s, ğ/g, ç/c, ö/o, ü/u and ı/i as the same letter
+  ignoreDiacritics: boolean;
+}
+
+// Character offsets of a match, end exclusive
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A search match inside a segment, as listed in the replace preview
+export interface ReplaceOccurrence {
+  segment: TranscriptionSegment;
+  range: TextRange;
+}
+
+export interface ExportOptions {
+  // Re-segment subtitle formats into cues; omitted keeps one cue per segment
+  subtitleProfile?: SubtitleProfileId;
+}
+
+export interface ExportPreference {
+  format: DownloadFormat;
+  subtitleProfile?: SubtitleProfileId;
+}
 
 export interface TranscriptionRequest {
   model_size?: ModelSize;
@@ -34,6 +87,54 @@ export interface TranscriptionRequest {
   output_format?: OutputFormat;
   initial_prompt?: string;
   temperature?: number;
+  word_timestamps?: boolean;
+  diarize?: boolean;
+  min_speakers?: number;
+  max_speakers?: number;
+  // Resample input to this rate in Hz; 8000 suits narrowband telephone audio
+  sample_rate?: number;
+}
+
+// Everything but the model, which has its own card
+export type AdvancedOptions = Omit<TranscriptionRequest, 'model_size'>;
+
+export type AdvancedOptionErrors = Partial<Record<keyof AdvancedOptions, string>>;
+
+export interface TranscriptionPreset {
+  id: string;
+  name: string;
+  description?: string;
+  model: ModelSize;
+  options: AdvancedOptions;
+  export: ExportPreference;
+  glossaryId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  terms: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A near-miss spelling of a glossary term; offsets index into the segment text
+export interface GlossarySuggestion {
+  id: string;
+  segmentId: number;
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+export interface TranscriptionWord {
+  word: string;
+  start: number;
+  end: number;
+  probability?: number;
 }
 
 export interface TranscriptionSegment {
@@ -46,6 +147,63 @@ export interface TranscriptionSegment {
   avg_logprob?: number;
   compression_ratio?: number;
   no_speech_prob?: number;
+  words?: TranscriptionWord[];
+  // Diarization label such as "SPEAKER_00", or a name the user gave it
+  speaker?: string;
+}
+
+export interface SpeakerTalkTime {
+  speaker: string;
+  seconds: number;
+  share: number;
+  segmentCount: number;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low' | 'unknown';
+
+// Signs that Whisper produced text that was not spoken
+export type HallucinationFlag = 'compression' | 'repetition' | 'silence';
+
+export interface SegmentConfidence {
+  // 0-1; undefined when the server sent no probabilities
+  score?: number;
+  level: ConfidenceLevel;
+  flags: HallucinationFlag[];
+}
+
+export type QualityFactorId = 'logprob' | 'no_speech' | 'compression' | 'repetition' | 'coverage';
+
+export interface QualityFactor {
+  id: QualityFactorId;
+  label: string;
+  // Points taken off the score, out of maxPenalty
+  penalty: number;
+  maxPenalty: number;
+  detail: string;
+}
+
+export interface QualityReport {
+  // 0-100; undefined when the result has no per-segment statistics
+  score?: number;
+  grade: string;
+  factors: QualityFactor[];
+}
+
+export type DiffOp = 'equal' | 'substitute' | 'insert' | 'delete';
+
+export interface WordDiffEntry {
+  op: DiffOp;
+  // Missing on the side that has no word for an insertion or deletion
+  reference?: string;
+  hypothesis?: string;
+}
+
+export interface WordDiff {
+  entries: WordDiffEntry[];
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  referenceLength: number;
 }
 
 export interface TranscriptionResponse {
@@ -66,6 +224,90 @@ export interface TranscriptionResponse {
   completed_at?: string;
 }
 
+// WebSocket messages sent by the server for a transcription task
+
+interface ServerMessageBase {
+  // Monotonic per task; sent back on reconnect so missed events are replayed
+  event_id?: number;
+}
+
+export interface HelloMessage extends ServerMessageBase {
+  type: 'hello';
+  protocol_version: number;
+}
+
+export interface ProgressMessage extends ServerMessageBase {
+  type: 'progress';
+  data: {
+    progress: number;
+    stage?: string;
+    message?: string;
+  };
+}
+
+export interface StatusMessage extends ServerMessageBase {
+  type: 'status';
+  data: {
+    status: TaskStatus;
+    progress?: number;
+  };
+}
+
+export interface ResultMessage extends ServerMessageBase {
+  type: 'result';
+  data: TranscriptionResponse;
+}
+
+export interface ErrorMessage extends ServerMessageBase {
+  type: 'error';
+  data: {
+    error: string;
+  };
+}
+
+export type ServerMessage =
+  | HelloMessage
+  | ProgressMessage
+  | StatusMessage
+  | ResultMessage
+  | ErrorMessage;
+
+export interface ClientHelloMessage {
+  type: 'hello';
+  protocol_version: number;
+}
+
+export type ClientMessage = ClientHelloMessage;
+
+// WebSocket messages sent by the server for a YouTube download
+
+export interface DownloadProgress {
+  status: string;
+  percent?: string;
+  speed?: string;
+  eta?: string;
+  filename?: string;
+  message?: string;
+}
+
+export interface DownloadResult {
+  session_id: string;
+  video_id: string;
+  filename: string;
+  file_path: string;
+  file_size: number;
+  quality: string;
+  duration?: number;
+  title: string;
+  uploader?: string;
+}
+
+export interface DownloadSocketMessage extends DownloadProgress, ServerMessageBase {
+  type: 'progress_update' | 'status_update';
+  result?: DownloadResult;
+  error?: string;
+}
+
 export interface HealthStatus {
   status: 'healthy' | 'unhealthy';
   version: string;
@@ -76,15 +318,44 @@ export interface HealthStatus {
   gpu_name?: string;
 }
 
+export interface ModelEstimate {
+  // Processing seconds per second of audio
+  realTimeFactor: number;
+  // Undefined until the file duration is known
+  seconds?: number;
+  // measured: from this user's runs; scaled: defaults adjusted by other measured models
+  source: 'measured' | 'scaled' | 'default';
+  samples: number;
+}
+
+// One model as the server describes it; everything but the id is optional
 export interface ModelInfo {
-  speed: string;
-  quality: string;
-  size: string;
-  description: string;
+  id: ModelSize;
+  name?: string;
+  description?: string;
+  speed?: string;
+  quality?: string;
+  size?: string;
+  vram?: string;
+  // Language codes; missing means multilingual
+  languages?: string[];
+  // Already in memory, so a task starts without a load delay
+  loaded?: boolean;
 }
 
+// The registry keyed by model id, one of the shapes GET /models may return
 export interface ModelConfig {
-  [key: string]: ModelInfo;
+  [key: string]: Omit<ModelInfo, 'id'>;
+}
+
+// A model with the server's metadata filled in from the built-in descriptions
+export interface ModelDescriptor extends ModelInfo {
+  name: string;
+  description: string;
+  // The built-in size it behaves like, for icons, estimates and ordering
+  family?: KnownModelSize;
+  // False for models the UI has no description of its own for
+  known: boolean;
 }
 
 export interface UploadState {
@@ -98,12 +369,125 @@ export interface TranscriptionState {
   taskId?: string;
   status: TaskStatus;
   progress: number;
+  eta?: number;
+  realTimeFactor?: number;
+  startedAt?: number;
+  lastProgressAt?: number;
   stage?: string;
   message?: string;
   result?: TranscriptionResponse;
   error?: string;
 }
 
+export type QueueItemStatus =
+  | 'queued'
+  | 'uploading'
+  | 'transcribing'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  options: TranscriptionRequest;
+  status: QueueItemStatus;
+  uploadProgress: number;
+  fileId?: string;
+  fileInfo?: FileInfo;
+  transcription: TranscriptionState;
+  error?: string;
+}
+
+export type ComparisonRunStatus = 'queued' | 'transcribing' | 'completed' | 'failed';
+
+export interface ComparisonRun {
+  model: ModelSize;
+  status: ComparisonRunStatus;
+  taskId?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  result?: TranscriptionResponse;
+  error?: string;
+}
+
+export interface ComparisonRow {
+  model: ModelSize;
+  // Seconds; the server's own measurement when it sends one
+  processingTime?: number;
+  realTimeFactor?: number;
+  wordCount: number;
+  // Against the largest completed model; that model itself has no diff and agreement 1
+  diff?: WordDiff;
+  agreement?: number;
+}
+
+export interface EvaluationMetrics {
+  // Word and character error rates, 0 and up; insertions can push them past 1
+  wer: number;
+  cer: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  referenceWords: number;
+  hypothesisWords: number;
+  referenceCharacters: number;
+  characterErrors: number;
+}
+
+export interface EvaluationEntry {
+  id: string;
+  // The history entry that was scored; it may have been deleted since
+  historyId: string;
+  filename: string;
+  model?: ModelSize;
+  referenceName: string;
+  reference: string;
+  hypothesis: string;
+  metrics: EvaluationMetrics;
+  createdAt: number;
+}
+
+export interface StoredFileMetadata {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+export interface StoredTask {
+  taskId: string;
+  upload: FileUploadResponse;
+  file: StoredFileMetadata;
+  fileInfo?: FileInfo;
+  options: TranscriptionRequest;
+  status: TaskStatus;
+  result?: TranscriptionResponse;
+  error?: string;
+  dismissed: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  filename: string;
+  duration?: number;
+  model?: ModelSize;
+  language?: string;
+  wordCount: number;
+  createdAt: number;
+  result: TranscriptionResponse;
+}
+
+export type RecordingStatus = 'idle' | 'requesting' | 'recording' | 'paused' | 'stopped';
+
+export interface RecordingFormat {
+  mimeType: string;
+  extension: string;
+}
+
 export interface AppState {
   health?: HealthStatus;
   upload: UploadState;